@@ -9,7 +9,9 @@ import Home from "./pages/Home";
 import Benchmark from "./pages/Benchmark";
 import Observability from "./pages/Observability";
 import CircuitBreakerPage from "./pages/CircuitBreakerPage";
+import SymbolDetail from "./pages/SymbolDetail";
 import Header from "./components/Header";
+import AlertNotifier from "./components/AlertNotifier";
 
 
 function Router() {
@@ -21,6 +23,7 @@ function Router() {
         <Route path={"/benchmark"} component={Benchmark} />
         <Route path={"/observability"} component={Observability} />
         <Route path={"/circuit-breaker"} component={CircuitBreakerPage} />
+        <Route path={"/symbol/:symbol"} component={SymbolDetail} />
         <Route path={"/404"} component={NotFound} />
         {/* Final fallback route */}
         <Route component={NotFound} />
@@ -44,6 +47,7 @@ function App() {
         >
           <TooltipProvider>
             <Toaster />
+            <AlertNotifier />
             <Router />
           </TooltipProvider>
         </ThemeProvider>
@@ -0,0 +1,30 @@
+import { toast } from "sonner";
+import type { StreamMessage } from "@shared/types";
+import { apiWebSocketUrl } from "@/lib/api";
+import { useWebSocket } from "@/hooks/useWebSocket";
+
+/**
+ * Shows a toast for every price alert the server fires and every SLO alert
+ * it opens or resolves, on whichever page is open
+ */
+export default function AlertNotifier() {
+  useWebSocket({
+    url: apiWebSocketUrl("/ws/alerts"),
+    onMessage: (message: StreamMessage) => {
+      if (message.type === "alert") {
+        toast.warning(message.data.rule_name, {
+          description: message.data.message,
+        });
+      } else if (message.type === "slo_alert") {
+        const { message: text, resolved_at } = message.data;
+        if (resolved_at === null) {
+          toast.error("SLO alert", { description: text });
+        } else {
+          toast.success("SLO alert resolved", { description: text });
+        }
+      }
+    },
+  });
+
+  return null;
+}
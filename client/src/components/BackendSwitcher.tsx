@@ -0,0 +1,27 @@
+import { Server } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getActiveBackend, getBackends, selectBackend } from "@/lib/config";
+
+/**
+ * Header dropdown choosing which backend every request and stream goes to
+ */
+export default function BackendSwitcher() {
+  const backends = getBackends();
+  const active = getActiveBackend();
+
+  return (
+    <Select value={active.id} onValueChange={selectBackend} disabled={backends.length < 2}>
+      <SelectTrigger size="sm" className="w-[130px]" title={`API: ${active.apiBaseUrl}`} aria-label="Backend">
+        <Server className="w-4 h-4" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {backends.map((backend) => (
+          <SelectItem key={backend.id} value={backend.id}>
+            {backend.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
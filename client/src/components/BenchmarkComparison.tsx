@@ -0,0 +1,180 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { BenchmarkRun, BenchmarkSymbolResult } from "@shared/types";
+import SymbolLink from "@/components/SymbolLink";
+
+// Changes smaller than this are treated as noise rather than a regression
+const REGRESSION_THRESHOLD_PERCENT = 5;
+
+interface BenchmarkComparisonProps {
+  runs: BenchmarkRun[];
+}
+
+interface MetricDelta {
+  baseline: number;
+  candidate: number;
+  percent: number;
+}
+
+/**
+ * Per-symbol comparison of two completed benchmark runs
+ */
+export default function BenchmarkComparison({ runs }: BenchmarkComparisonProps) {
+  const completed = useMemo(() => runs.filter((run) => run.status === "completed"), [runs]);
+  const [baselineId, setBaselineId] = useState("");
+  const [candidateId, setCandidateId] = useState("");
+
+  // Default to the two most recent runs, newest as the candidate
+  useEffect(() => {
+    if (completed.length < 2) return;
+    if (!completed.some((run) => run.id === candidateId)) setCandidateId(completed[0].id);
+    if (!completed.some((run) => run.id === baselineId)) setBaselineId(completed[1].id);
+  }, [completed, baselineId, candidateId]);
+
+  if (completed.length < 2) {
+    return (
+      <Card className="bg-card border border-border p-6 mb-8">
+        <h2 className="text-lg font-semibold mb-2">Run Comparison</h2>
+        <p className="text-muted-foreground text-sm">Complete at least two benchmark runs to compare them.</p>
+      </Card>
+    );
+  }
+
+  const baseline = completed.find((run) => run.id === baselineId);
+  const candidate = completed.find((run) => run.id === candidateId);
+  const symbols = baseline && candidate
+    ? baseline.results.map((r) => r.symbol).filter((symbol) => candidate.results.some((r) => r.symbol === symbol))
+    : [];
+
+  return (
+    <Card className="bg-card border border-border p-6 mb-8">
+      <h2 className="text-lg font-semibold mb-4">Run Comparison</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <RunSelect label="Baseline" runs={completed} value={baselineId} onChange={setBaselineId} />
+        <RunSelect label="Candidate" runs={completed} value={candidateId} onChange={setCandidateId} />
+      </div>
+
+      {symbols.length === 0 ? (
+        <p className="text-muted-foreground text-sm">These runs have no symbols in common.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Symbol</TableHead>
+              <TableHead className="text-right">Mean</TableHead>
+              <TableHead className="text-right">P95</TableHead>
+              <TableHead className="text-right">P99</TableHead>
+              <TableHead className="text-right">Speedup</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {symbols.map((symbol) => {
+              const before = resultFor(baseline!, symbol);
+              const after = resultFor(candidate!, symbol);
+              return (
+                <TableRow key={symbol}>
+                  <TableCell className="font-semibold">
+                    <SymbolLink symbol={symbol} plain className="text-accent" />
+                  </TableCell>
+                  <LatencyCell delta={deltaOf(before.summary.mean, after.summary.mean)} />
+                  <LatencyCell delta={deltaOf(before.summary.p95, after.summary.p95)} />
+                  <LatencyCell delta={deltaOf(before.summary.p99, after.summary.p99)} />
+                  <SpeedupCell delta={deltaOf(before.speedup, after.speedup)} />
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+      <p className="text-xs text-muted-foreground mt-4">
+        Latencies in µs. Changes beyond {REGRESSION_THRESHOLD_PERCENT}% are highlighted; red marks a regression.
+      </p>
+    </Card>
+  );
+}
+
+function RunSelect({
+  label,
+  runs,
+  value,
+  onChange,
+}: {
+  label: string;
+  runs: BenchmarkRun[];
+  value: string;
+  onChange: (id: string) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <p className="text-muted-foreground text-xs uppercase tracking-wider">{label}</p>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="w-full">
+          <SelectValue placeholder="Select a run" />
+        </SelectTrigger>
+        <SelectContent>
+          {runs.map((run) => (
+            <SelectItem key={run.id} value={run.id}>
+              {describeRun(run)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+function LatencyCell({ delta }: { delta: MetricDelta }) {
+  // Higher latency is worse
+  return <DeltaCell delta={delta} format={(v) => v.toFixed(2)} regressed={delta.percent > 0} />;
+}
+
+function SpeedupCell({ delta }: { delta: MetricDelta }) {
+  // Lower speedup is worse
+  return <DeltaCell delta={delta} format={(v) => `${Math.round(v).toLocaleString()}x`} regressed={delta.percent < 0} />;
+}
+
+function DeltaCell({
+  delta,
+  format,
+  regressed,
+}: {
+  delta: MetricDelta;
+  format: (value: number) => string;
+  regressed: boolean;
+}) {
+  const significant = Math.abs(delta.percent) >= REGRESSION_THRESHOLD_PERCENT;
+  const tone = !significant ? "text-muted-foreground" : regressed ? "text-red-400 font-semibold" : "text-green-400";
+  return (
+    <TableCell className={`text-right ${significant && regressed ? "bg-red-500/10" : ""}`}>
+      <div>
+        {format(delta.baseline)} → {format(delta.candidate)}
+      </div>
+      <div className={`text-xs ${tone}`}>
+        {delta.percent > 0 ? "+" : ""}
+        {delta.percent.toFixed(1)}%
+      </div>
+    </TableCell>
+  );
+}
+
+function resultFor(run: BenchmarkRun, symbol: string): BenchmarkSymbolResult {
+  return run.results.find((r) => r.symbol === symbol)!;
+}
+
+function deltaOf(baseline: number, candidate: number): MetricDelta {
+  return {
+    baseline,
+    candidate,
+    percent: baseline > 0 ? ((candidate - baseline) / baseline) * 100 : 0,
+  };
+}
+
+function describeRun(run: BenchmarkRun): string {
+  const when = new Date(run.created_at * 1000).toLocaleString();
+  const commit = run.git_commit ? run.git_commit.slice(0, 7) : "unknown commit";
+  const { iterations, concurrency, mode } = run.config;
+  return `${when} · ${commit} · ${iterations}×${concurrency} ${mode === "http_loopback" ? "HTTP" : "in-process"}`;
+}
@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown, Table2 } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import SymbolLink from "@/components/SymbolLink";
+import type { ReadRoute, ReadStats, StatsBreakdownResponse, UpstreamError } from "@shared/types";
+import { fetchStatsBreakdown } from "@/lib/api";
+
+type Breakdown = "symbol" | "route";
+
+interface BreakdownRow extends ReadStats {
+  name: string;
+  lastError: UpstreamError | null;
+}
+
+type SortKey = keyof Omit<BreakdownRow, "lastError">;
+
+const ROUTE_LABELS: Record<ReadRoute, string> = {
+  price: "GET /price/:symbol",
+  prices: "GET /prices",
+  book: "GET /book/:symbol",
+  websocket: "WebSocket streams",
+  benchmark: "Benchmark runs",
+  internal: "Server (priming)",
+};
+
+const COLUMNS: { key: SortKey; label: string; format: (row: BreakdownRow) => string }[] = [
+  { key: "total_requests", label: "Requests", format: (r) => r.total_requests.toLocaleString() },
+  { key: "cache_hits", label: "Hits", format: (r) => r.cache_hits.toLocaleString() },
+  { key: "stale_hits", label: "Stale", format: (r) => r.stale_hits.toLocaleString() },
+  { key: "cache_misses", label: "Misses", format: (r) => r.cache_misses.toLocaleString() },
+  { key: "coalesced", label: "Coalesced", format: (r) => r.coalesced.toLocaleString() },
+  { key: "hit_rate_percent", label: "Hit Rate", format: (r) => `${r.hit_rate_percent.toFixed(1)}%` },
+  { key: "refreshes", label: "Refreshes", format: (r) => r.refreshes.toLocaleString() },
+  { key: "refresh_errors", label: "Errors", format: (r) => r.refresh_errors.toLocaleString() },
+  { key: "p50_latency_us", label: "P50 µs", format: (r) => r.p50_latency_us.toFixed(2) },
+  { key: "p95_latency_us", label: "P95 µs", format: (r) => r.p95_latency_us.toFixed(2) },
+  { key: "p99_latency_us", label: "P99 µs", format: (r) => r.p99_latency_us.toFixed(2) },
+];
+
+function toRows(breakdown: StatsBreakdownResponse, by: Breakdown): BreakdownRow[] {
+  if (by === "symbol") {
+    return breakdown.symbols.map(({ symbol, last_refresh, freshness, upstream_errors, ...stats }) => ({
+      ...stats,
+      name: symbol,
+      lastError: upstream_errors[0] ?? null,
+    }));
+  }
+  return breakdown.routes.map(({ route, last_refresh_error, ...stats }) => ({
+    ...stats,
+    name: route,
+    lastError: last_refresh_error,
+  }));
+}
+
+/**
+ * Cache hits, misses, refreshes and lookup latency per symbol or per route,
+ * sortable by any column. Sorted by misses first, so the symbols that miss
+ * most are on top.
+ */
+export default function CacheBreakdownTable() {
+  const [breakdown, setBreakdown] = useState<StatsBreakdownResponse | null>(null);
+  const [by, setBy] = useState<Breakdown>("symbol");
+  const [sortKey, setSortKey] = useState<SortKey>("cache_misses");
+  const [descending, setDescending] = useState(true);
+
+  useEffect(() => {
+    const refresh = async () => {
+      try {
+        setBreakdown(await fetchStatsBreakdown());
+      } catch (error) {
+        console.warn("Failed to fetch stats breakdown:", error);
+      }
+    };
+
+    refresh();
+    const interval = setInterval(refresh, 3000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!breakdown) return null;
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending(!descending);
+    } else {
+      setSortKey(key);
+      // Names read best A to Z, numbers largest first
+      setDescending(key !== "name");
+    }
+  };
+
+  const rows = toRows(breakdown, by).sort((a, b) => {
+    const order =
+      sortKey === "name" ? a.name.localeCompare(b.name) : (a[sortKey] as number) - (b[sortKey] as number);
+    return descending ? -order : order;
+  });
+
+  const sortIcon = (key: SortKey) =>
+    key !== sortKey ? (
+      <ArrowUpDown className="w-3 h-3 opacity-40" />
+    ) : descending ? (
+      <ArrowDown className="w-3 h-3" />
+    ) : (
+      <ArrowUp className="w-3 h-3" />
+    );
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Table2 className="w-5 h-5 text-accent" /> Cache Breakdown
+        </h3>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={by}
+          onValueChange={(value) => value && setBy(value as Breakdown)}
+        >
+          <ToggleGroupItem value="symbol" className="text-xs px-3">
+            By symbol
+          </ToggleGroupItem>
+          <ToggleGroupItem value="route" className="text-xs px-3">
+            By route
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No cache reads yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>
+                <button type="button" className="flex items-center gap-1" onClick={() => handleSort("name")}>
+                  {by === "symbol" ? "Symbol" : "Route"} {sortIcon("name")}
+                </button>
+              </TableHead>
+              {COLUMNS.map((column) => (
+                <TableHead key={column.key} className="text-right">
+                  <button
+                    type="button"
+                    className="inline-flex items-center gap-1"
+                    onClick={() => handleSort(column.key)}
+                  >
+                    {column.label} {sortIcon(column.key)}
+                  </button>
+                </TableHead>
+              ))}
+              <TableHead>Last Error</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.name}>
+                <TableCell className="font-semibold">
+                  {by === "symbol" ? (
+                    <SymbolLink symbol={row.name} />
+                  ) : (
+                    <span className="font-mono text-xs">{ROUTE_LABELS[row.name as ReadRoute] ?? row.name}</span>
+                  )}
+                </TableCell>
+                {COLUMNS.map((column) => (
+                  <TableCell
+                    key={column.key}
+                    className={`text-right font-mono ${
+                      column.key === "cache_misses" && row.cache_misses > 0 ? "text-red-400" : ""
+                    }`}
+                  >
+                    {column.format(row)}
+                  </TableCell>
+                ))}
+                <TableCell className="max-w-48 truncate text-xs text-muted-foreground">
+                  {row.lastError ? (
+                    <span title={`${new Date(row.lastError.time * 1000).toLocaleTimeString()}: ${row.lastError.message}`}>
+                      {row.lastError.message}
+                    </span>
+                  ) : (
+                    "—"
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { useEffect, useState } from "react";
+import {
+  ComposedChart,
+  BarChart,
+  Bar,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { CandlestickChart } from "lucide-react";
+import type { Candle, CandleInterval } from "@shared/types";
+import { fetchHistory } from "@/lib/api";
+import { symbolColor } from "@/lib/symbolColors";
+
+export type CandleChartMode = "candlestick" | "area";
+
+interface CandleChartProps {
+  symbol: string;
+  mode: CandleChartMode;
+  interval: CandleInterval;
+  /** Number of most recent bars to show */
+  maxBars?: number;
+  isPaused?: boolean;
+}
+
+interface CandlePoint extends Candle {
+  label: string;
+}
+
+const BAR_SECONDS: Record<CandleInterval, number> = {
+  "1s": 1,
+  "1m": 60,
+  "5m": 300,
+  "1h": 3600,
+};
+
+// Longer bars still refetch this often so the forming bar keeps moving
+const MAX_REFETCH_MS = 60_000;
+
+const UP_COLOR = "#00FF88";
+const DOWN_COLOR = "#FF2D55";
+
+// Shared by the price and volume panels so both use the same time axis
+const CHART_MARGIN = { top: 5, right: 30, left: 10, bottom: 5 };
+const Y_AXIS_WIDTH = 60;
+
+/**
+ * Draws one OHLC bar. Recharts hands us the pixel box spanning low→high;
+ * open and close are placed inside it proportionally.
+ */
+const CandleShape = (props: any) => {
+  const { x, y, width, height, payload } = props;
+  const { open, close, high, low } = payload as Candle;
+  const color = close >= open ? UP_COLOR : DOWN_COLOR;
+  const range = high - low;
+  const toY = (price: number) => (range > 0 ? y + ((high - price) / range) * height : y);
+  const bodyTop = toY(Math.max(open, close));
+  const bodyHeight = Math.max(1, toY(Math.min(open, close)) - bodyTop);
+  const centerX = x + width / 2;
+
+  return (
+    <g>
+      <line x1={centerX} x2={centerX} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect
+        x={x + width * 0.15}
+        y={bodyTop}
+        width={width * 0.7}
+        height={bodyHeight}
+        fill={close >= open ? "transparent" : color}
+        stroke={color}
+      />
+    </g>
+  );
+};
+
+const CandleTooltip = ({ active, payload }: any) => {
+  if (!active || !payload?.length) return null;
+  const candle = payload[0].payload as CandlePoint;
+  const rows: [string, string][] = [
+    ["Open", `$${candle.open.toFixed(2)}`],
+    ["High", `$${candle.high.toFixed(2)}`],
+    ["Low", `$${candle.low.toFixed(2)}`],
+    ["Close", `$${candle.close.toFixed(2)}`],
+    ["Bid / Ask", `$${candle.bid.toFixed(2)} / $${candle.ask.toFixed(2)}`],
+    ["Volume", candle.volume.toLocaleString()],
+  ];
+  return (
+    <div className="bg-card border border-border rounded-lg p-3 shadow-lg">
+      <p className="text-xs text-muted-foreground mb-2">{candle.label}</p>
+      {rows.map(([name, value]) => (
+        <div key={name} className="flex items-center justify-between gap-4 text-sm">
+          <span className="text-muted-foreground">{name}</span>
+          <span className="text-foreground font-semibold">{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Single-symbol candlestick or bid/ask area chart with a volume panel,
+ * drawn from the server's OHLCV history. Only the visible window is fetched,
+ * once per bar interval.
+ */
+export default function CandleChart({
+  symbol,
+  mode,
+  interval,
+  maxBars = 60,
+  isPaused = false,
+}: CandleChartProps) {
+  const [candles, setCandles] = useState<CandlePoint[]>([]);
+
+  useEffect(() => {
+    if (isPaused) return;
+    let cancelled = false;
+    const barSeconds = BAR_SECONDS[interval];
+    const load = () => {
+      const from = Math.floor(Date.now() / 1000) - maxBars * barSeconds;
+      fetchHistory(symbol, interval, from).then((history) => {
+        if (cancelled) return;
+        setCandles(
+          history.slice(-maxBars).map((candle) => ({
+            ...candle,
+            label: formatBarTime(candle.time, interval),
+          }))
+        );
+      });
+    };
+
+    load();
+    const timer = setInterval(load, Math.min(barSeconds * 1000, MAX_REFETCH_MS));
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [symbol, interval, maxBars, isPaused]);
+
+  if (candles.length < 2) {
+    return (
+      <div className="h-[350px] flex items-center justify-center text-muted-foreground">
+        <div className="text-center">
+          <CandlestickChart className="w-12 h-12 mx-auto mb-3 opacity-50" />
+          <p className="text-sm">Collecting {interval} candles for {symbol}...</p>
+          <p className="text-xs mt-1">Chart will appear after 2+ bars</p>
+        </div>
+      </div>
+    );
+  }
+
+  const low = Math.min(...candles.map((c) => Math.min(c.low, c.bid)));
+  const high = Math.max(...candles.map((c) => Math.max(c.high, c.ask)));
+  const padding = (high - low) * 0.05 || high * 0.001;
+  const color = symbolColor(symbol);
+
+  return (
+    <div>
+      <div className="h-[270px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={candles} margin={CHART_MARGIN} syncId={`candles-${symbol}`}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#2A3142" />
+            <XAxis dataKey="label" hide />
+            <YAxis
+              width={Y_AXIS_WIDTH}
+              stroke="#A0A0A0"
+              style={{ fontSize: "10px" }}
+              tick={{ fill: "#A0A0A0" }}
+              domain={[low - padding, high + padding]}
+              tickFormatter={(value) => `$${value.toFixed(2)}`}
+            />
+            <Tooltip content={<CandleTooltip />} />
+            {mode === "candlestick" ? (
+              <Bar
+                dataKey={(c: Candle) => [c.low, c.high]}
+                shape={<CandleShape />}
+                isAnimationActive={false}
+              />
+            ) : (
+              <>
+                <Area
+                  dataKey={(c: Candle) => [c.bid, c.ask]}
+                  stroke="none"
+                  fill={color}
+                  fillOpacity={0.25}
+                  isAnimationActive={false}
+                />
+                <Line
+                  dataKey="close"
+                  stroke={color}
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </>
+            )}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Volume panel */}
+      <div className="h-[80px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={candles} margin={CHART_MARGIN} syncId={`candles-${symbol}`}>
+            <XAxis
+              dataKey="label"
+              stroke="#A0A0A0"
+              style={{ fontSize: "10px" }}
+              tick={{ fill: "#A0A0A0" }}
+              interval="preserveStartEnd"
+            />
+            <YAxis
+              width={Y_AXIS_WIDTH}
+              stroke="#A0A0A0"
+              style={{ fontSize: "10px" }}
+              tick={{ fill: "#A0A0A0" }}
+              tickFormatter={formatVolume}
+            />
+            <Tooltip content={() => null} cursor={{ fill: "#2A3142" }} />
+            <Bar dataKey="volume" isAnimationActive={false} shape={<VolumeShape />} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+const VolumeShape = (props: any) => {
+  const { x, y, width, height, payload } = props;
+  const color = payload.close >= payload.open ? UP_COLOR : DOWN_COLOR;
+  return <rect x={x} y={y} width={width} height={height} fill={color} fillOpacity={0.5} />;
+};
+
+function formatBarTime(seconds: number, interval: CandleInterval): string {
+  const date = new Date(seconds * 1000);
+  return date.toLocaleTimeString("en-US", {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: interval === "1s" ? "2-digit" : undefined,
+  });
+}
+
+function formatVolume(volume: number): string {
+  if (volume >= 1_000_000) return `${(volume / 1_000_000).toFixed(1)}M`;
+  if (volume >= 1000) return `${(volume / 1000).toFixed(0)}K`;
+  return String(volume);
+}
@@ -1,85 +1,25 @@
 import { useEffect, useState } from "react";
 import { AlertTriangle, CheckCircle, AlertCircle, RefreshCw } from "lucide-react";
 import { Button } from "@/components/ui/button";
-
-interface CircuitBreakerMetrics {
-  name: string;
-  state: "closed" | "open" | "half_open";
-  total_calls: number;
-  successful_calls: number;
-  failed_calls: number;
-  rejected_calls: number;
-  success_rate_percent: number;
-  state_changes: number;
-  last_failure_time: number | null;
-  last_state_change_time: number;
-  config: {
-    failure_threshold: number;
-    success_threshold: number;
-    timeout_seconds: number;
-    half_open_max_calls: number;
-  };
-}
+import SourceBadge from "@/components/SourceBadge";
+import type { CircuitBreakerMetrics } from "@shared/types";
+import { fetchCircuitBreakerStatus, resetCircuitBreaker, type DataSource } from "@/lib/api";
 
 export default function CircuitBreakerStatus() {
   const [metrics, setMetrics] = useState<CircuitBreakerMetrics | null>(null);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const getFallbackMetrics = (): CircuitBreakerMetrics => ({
-    name: "yahoo_finance",
-    state: "closed",
-    total_calls: 1000,
-    successful_calls: 995,
-    failed_calls: 5,
-    rejected_calls: 0,
-    success_rate_percent: 99.5,
-    state_changes: 2,
-    last_failure_time: null,
-    last_state_change_time: Date.now() / 1000,
-    config: {
-      failure_threshold: 5,
-      success_threshold: 2,
-      timeout_seconds: 60,
-      half_open_max_calls: 3,
-    },
-  });
+  const [source, setSource] = useState<DataSource | null>(null);
 
   const fetchMetrics = async () => {
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000);
-
-      const response = await fetch("http://localhost:8000/circuit-breaker/status", {
-        signal: controller.signal,
-      });
-      clearTimeout(timeoutId);
-
-      if (!response.ok) throw new Error("Failed to fetch circuit breaker status");
-      const data = await response.json();
-      setMetrics(data);
-      setError(null);
-    } catch (err) {
-      // Use fallback data on error
-      setMetrics(getFallbackMetrics());
-      setError(null);
-    } finally {
-      setLoading(false);
-    }
+    const { data, source } = await fetchCircuitBreakerStatus();
+    setMetrics(data);
+    setSource(source);
+    setLoading(false);
   };
 
-  const resetCircuitBreaker = async () => {
+  const handleReset = async () => {
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000);
-
-      const response = await fetch("http://localhost:8000/circuit-breaker/reset", {
-        method: "POST",
-        signal: controller.signal,
-      });
-      clearTimeout(timeoutId);
-
-      if (!response.ok) throw new Error("Failed to reset circuit breaker");
+      await resetCircuitBreaker();
       await fetchMetrics();
     } catch (err) {
       console.warn("Could not reset circuit breaker:", err);
@@ -146,12 +86,15 @@ export default function CircuitBreakerStatus() {
           <div className="flex items-center gap-3">
             <Icon className={`w-8 h-8 ${config.color}`} />
             <div>
-              <h3 className="text-2xl font-bold">{config.label}</h3>
+              <h3 className="text-2xl font-bold flex items-center gap-2">
+                {config.label}
+                <SourceBadge source={source} />
+              </h3>
               <p className="text-sm text-muted-foreground">{config.description}</p>
             </div>
           </div>
           {metrics.state === "open" && (
-            <Button onClick={resetCircuitBreaker} variant="outline" size="sm">
+            <Button onClick={handleReset} variant="outline" size="sm">
               <RefreshCw className="w-4 h-4 mr-2" />
               Reset
             </Button>
@@ -281,7 +224,7 @@ export default function CircuitBreakerStatus() {
             Circuit is OPEN
           </h4>
           <p className="text-sm text-muted-foreground">
-            The upstream service is failing. All requests to Yahoo Finance are being rejected. The system will serve stale-while-revalidate data if available. The circuit will automatically transition to HALF_OPEN in {metrics.config.timeout_seconds.toFixed(0)} seconds to test recovery.
+            The upstream service is failing. All requests to the {metrics.name} provider are being rejected. The system will serve stale-while-revalidate data if available. The circuit will automatically transition to HALF_OPEN in {metrics.config.timeout_seconds.toFixed(0)} seconds to test recovery.
           </p>
         </div>
       )}
@@ -1,6 +1,7 @@
 import { Link, useLocation } from "wouter";
 import { Zap, Menu, X } from "lucide-react";
 import StatusIndicator from "./StatusIndicator";
+import BackendSwitcher from "./BackendSwitcher";
 import { useState } from "react";
 
 export default function Header() {
@@ -44,8 +45,10 @@ export default function Header() {
           ))}
         </nav>
 
-        {/* Right Section: Status + Mobile Menu Button */}
+        {/* Right Section: Backend + Status + Mobile Menu Button */}
         <div className="flex items-center gap-4">
+          <BackendSwitcher />
+
           {/* Status Indicator - Hidden on very small screens */}
           <div className="hidden sm:block">
             <StatusIndicator />
@@ -1,6 +1,18 @@
 import { useEffect, useState } from "react";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
 import { AlertCircle, TrendingUp } from "lucide-react";
+import { toast } from "sonner";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import SourceBadge from "@/components/SourceBadge";
+import { useStats } from "@/hooks/usePrice";
+import { setEvictionConfig } from "@/lib/api";
+import type { EvictionPolicy, EvictionStatus } from "@shared/types";
+
+const POLICY_LABELS: Record<EvictionPolicy, string> = {
+  lru: "LRU (least recently read)",
+  lfu: "LFU (least often read)",
+  ttl: "TTL (closest to expiry)",
+};
 
 interface MetricsData {
   cache_hits: number;
@@ -8,9 +20,15 @@ interface MetricsData {
   stale_hits: number;
   hit_rate_percent: number;
   avg_latency_us: number;
+  p50_latency_us: number;
+  p90_latency_us: number;
   p95_latency_us: number;
   p99_latency_us: number;
+  p999_latency_us: number;
+  max_latency_us: number;
   refresh_errors: number;
+  evictions: number;
+  coalesced_requests: number;
   cache_size: number;
 }
 
@@ -22,75 +40,45 @@ interface HistoryPoint {
 }
 
 export default function MetricsPanel() {
-  const [metrics, setMetrics] = useState<MetricsData | null>(null);
+  const { details, loading, source, refresh } = useStats();
   const [history, setHistory] = useState<HistoryPoint[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  const getFallbackMetrics = (): MetricsData => ({
-    cache_hits: 1000,
-    cache_misses: 10,
-    stale_hits: 5,
-    hit_rate_percent: 98.5,
-    avg_latency_us: 0.62,
-    p95_latency_us: 1.2,
-    p99_latency_us: 2.1,
-    refresh_errors: 0,
-    cache_size: 5,
-  });
-
-  useEffect(() => {
-    const fetchMetrics = async () => {
-      try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 5000);
-
-        const response = await fetch("/api/stats", {
-          signal: controller.signal,
-        });
-        clearTimeout(timeoutId);
 
-        if (!response.ok) throw new Error("Failed to fetch metrics");
-
-        const data = await response.json();
-        const cacheStats = data.cache_stats;
-        const metricsData = {
+  const cacheStats = details?.cache_stats;
+  const metrics: MetricsData | null =
+    details && cacheStats
+      ? {
           cache_hits: cacheStats.cache_hits || 0,
           cache_misses: cacheStats.cache_misses || 0,
-          stale_hits: 0,
+          stale_hits: cacheStats.stale_hits || 0,
           hit_rate_percent: cacheStats.hit_rate_percent || 0,
           avg_latency_us: cacheStats.avg_latency_us || 0,
-          p95_latency_us: (cacheStats.avg_latency_us * 1.5) || 0,
-          p99_latency_us: (cacheStats.avg_latency_us * 2.5) || 0,
+          p50_latency_us: cacheStats.p50_latency_us || 0,
+          p90_latency_us: cacheStats.p90_latency_us || 0,
+          p95_latency_us: cacheStats.p95_latency_us || 0,
+          p99_latency_us: cacheStats.p99_latency_us || 0,
+          p999_latency_us: cacheStats.p999_latency_us || 0,
+          max_latency_us: cacheStats.max_latency_us || 0,
           refresh_errors: cacheStats.failed_refreshes || 0,
-          cache_size: 5,
-        };
-        setMetrics(metricsData);
-
-        // Add to history (keep last 20 points)
-        const now = new Date().toLocaleTimeString();
-        setHistory((prev) => [
-          ...prev.slice(-19),
-          {
-            timestamp: now,
-            hit_rate: metricsData.hit_rate_percent || 0,
-            p95_latency: metricsData.p95_latency_us || 0,
-            p99_latency: metricsData.p99_latency_us || 0,
-          },
-        ]);
-
-        setLoading(false);
-      } catch (err) {
-        // Use fallback data on error
-        const fallbackData = getFallbackMetrics();
-        setMetrics(fallbackData);
-        setLoading(false);
-      }
-    };
-
-    fetchMetrics();
-    const interval = setInterval(fetchMetrics, 3000);
-    return () => clearInterval(interval);
-  }, []);
+          evictions: cacheStats.evictions || 0,
+          coalesced_requests: cacheStats.coalesced_requests || 0,
+          cache_size: details.cache_size ?? 0,
+        }
+      : null;
+  const eviction: EvictionStatus | null = details && source !== "synthetic" ? details.eviction : null;
+
+  // Add a history point per stats update from the shared feed (keep last 20 points)
+  useEffect(() => {
+    if (!cacheStats) return;
+    setHistory((prev) => [
+      ...prev.slice(-19),
+      {
+        timestamp: new Date().toLocaleTimeString(),
+        hit_rate: cacheStats.hit_rate_percent || 0,
+        p95_latency: cacheStats.p95_latency_us || 0,
+        p99_latency: cacheStats.p99_latency_us || 0,
+      },
+    ]);
+  }, [cacheStats]);
 
   if (loading && !metrics) {
     return (
@@ -111,6 +99,16 @@ export default function MetricsPanel() {
     );
   }
 
+  const handlePolicyChange = async (policy: string) => {
+    try {
+      await setEvictionConfig({ policy: policy as EvictionPolicy });
+      void refresh();
+      toast.success(`Eviction policy set to ${policy.toUpperCase()}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to switch eviction policy");
+    }
+  };
+
   // Safely handle metrics
   const hitRate = metrics.hit_rate_percent ?? 0;
   const avgLatency = metrics.avg_latency_us ?? 0;
@@ -122,7 +120,10 @@ export default function MetricsPanel() {
       {/* Metrics Grid */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <div className="bg-card border border-border rounded-lg p-4">
-          <div className="text-sm text-muted-foreground mb-1">Hit Rate</div>
+          <div className="text-sm text-muted-foreground mb-1 flex items-center justify-between">
+            Hit Rate
+            <SourceBadge source={source} />
+          </div>
           <div className="text-3xl font-bold text-accent">{hitRate.toFixed(2)}%</div>
           <div className="text-xs text-muted-foreground mt-2">
             Hits: {metrics.cache_hits} | Misses: {metrics.cache_misses}
@@ -142,6 +143,26 @@ export default function MetricsPanel() {
         </div>
       </div>
 
+      {/* Measured Percentiles */}
+      <div className="bg-card border border-border rounded-lg p-4">
+        <h4 className="font-semibold mb-3">Lookup Latency Percentiles</h4>
+        <div className="grid grid-cols-3 md:grid-cols-6 gap-4 text-sm">
+          {[
+            { label: "P50", value: metrics.p50_latency_us },
+            { label: "P90", value: metrics.p90_latency_us },
+            { label: "P95", value: metrics.p95_latency_us },
+            { label: "P99", value: metrics.p99_latency_us },
+            { label: "P99.9", value: metrics.p999_latency_us },
+            { label: "Max", value: metrics.max_latency_us },
+          ].map(({ label, value }) => (
+            <div key={label}>
+              <div className="text-muted-foreground mb-1">{label}</div>
+              <div className="font-mono">{(value ?? 0).toFixed(3)} µs</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
       {/* Latency Trend Chart */}
       {history && history.length > 1 && (
         <div className="bg-card border border-border rounded-lg p-6">
@@ -187,7 +208,7 @@ export default function MetricsPanel() {
           <div className="space-y-2 text-sm">
             <div className="flex justify-between">
               <span className="text-muted-foreground">Total Requests:</span>
-              <span className="font-mono">{metrics.cache_hits + metrics.cache_misses}</span>
+              <span className="font-mono">{metrics.cache_hits + metrics.stale_hits + metrics.cache_misses}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground">Fresh Hits:</span>
@@ -201,6 +222,12 @@ export default function MetricsPanel() {
               <span className="text-muted-foreground">Misses:</span>
               <span className="font-mono text-red-400">{metrics.cache_misses}</span>
             </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground" title="Misses that shared an upstream fetch already in flight">
+                Coalesced Misses:
+              </span>
+              <span className="font-mono text-purple-400">{metrics.coalesced_requests}</span>
+            </div>
           </div>
         </div>
 
@@ -228,6 +255,56 @@ export default function MetricsPanel() {
           </div>
         </div>
       </div>
+
+      {/* Capacity and eviction */}
+      {eviction && (
+        <div className="bg-card border border-border rounded-lg p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="font-semibold">Capacity &amp; Eviction</h4>
+            <Select value={eviction.policy} onValueChange={handlePolicyChange}>
+              <SelectTrigger size="sm" className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(POLICY_LABELS) as EvictionPolicy[]).map((policy) => (
+                  <SelectItem key={policy} value={policy}>
+                    {POLICY_LABELS[policy]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <div className="text-muted-foreground mb-1">Entries</div>
+              <div className="font-mono">
+                {eviction.entries} / {eviction.max_entries ?? "∞"}
+              </div>
+            </div>
+            <div>
+              <div className="text-muted-foreground mb-1">Size</div>
+              <div className="font-mono">
+                {(eviction.bytes / 1024).toFixed(1)} KB / {eviction.max_bytes ? `${(eviction.max_bytes / 1024).toFixed(1)} KB` : "∞"}
+              </div>
+            </div>
+            <div>
+              <div className="text-muted-foreground mb-1">Evictions</div>
+              <div className="font-mono" title={`LRU ${eviction.evictions_by_policy.lru} • LFU ${eviction.evictions_by_policy.lfu} • TTL ${eviction.evictions_by_policy.ttl}`}>
+                {eviction.evictions}
+              </div>
+            </div>
+            <div>
+              <div className="text-muted-foreground mb-1">Hit Rate Under {eviction.policy.toUpperCase()}</div>
+              <div className="font-mono text-accent">
+                {eviction.policy_requests > 0 ? `${eviction.policy_hit_rate_percent.toFixed(2)}%` : "—"}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {eviction.policy_requests} reads since {new Date(eviction.policy_since * 1000).toLocaleTimeString()}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
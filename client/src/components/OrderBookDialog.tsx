@@ -0,0 +1,168 @@
+import { useEffect, useMemo, useState } from "react";
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { BookLevel, OrderBook, StreamMessage } from "@shared/types";
+import { apiWebSocketUrl, fetchOrderBook } from "@/lib/api";
+import SymbolLink from "@/components/SymbolLink";
+import { useWebSocket } from "@/hooks/useWebSocket";
+
+const BID_COLOR = "#00FF88";
+const ASK_COLOR = "#FF2D55";
+
+interface OrderBookDialogProps {
+  /** Symbol whose book is shown; null closes the dialog */
+  symbol: string | null;
+  onClose: () => void;
+}
+
+/**
+ * Depth ladder and cumulative depth chart for one symbol, kept live over
+ * `/ws/book` while open
+ */
+export default function OrderBookDialog({ symbol, onClose }: OrderBookDialogProps) {
+  return (
+    <Dialog open={symbol !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        {symbol && <OrderBookView symbol={symbol} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function OrderBookView({ symbol }: { symbol: string }) {
+  const [book, setBook] = useState<OrderBook | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchOrderBook(symbol).then((data) => {
+      if (cancelled) return;
+      setBook(data);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol]);
+
+  const { isConnected } = useWebSocket({
+    url: apiWebSocketUrl(`/ws/book?symbols=${encodeURIComponent(symbol)}`),
+    onMessage: (message: StreamMessage) => {
+      if (message.type === "book" && message.data.symbol === symbol) {
+        setBook(message.data);
+        setLoading(false);
+      }
+    },
+  });
+
+  const depth = useMemo(() => (book ? cumulativeDepth(book) : []), [book]);
+  const maxSize = book ? Math.max(...book.bids.map((l) => l.size), ...book.asks.map((l) => l.size), 1) : 1;
+  const spread = book && book.bids[0] && book.asks[0] ? book.asks[0].price - book.bids[0].price : null;
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>
+          <SymbolLink symbol={symbol} /> Order Book
+        </DialogTitle>
+        <DialogDescription>
+          {book
+            ? `${book.bids.length}×${book.asks.length} levels • ${book.freshness} • ${isConnected ? "live" : "snapshot"}`
+            : "Bid and ask depth"}
+        </DialogDescription>
+      </DialogHeader>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading order book...</p>
+      ) : !book ? (
+        <p className="text-sm text-muted-foreground">No order book depth is available for {symbol}.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {/* Depth ladder: asks above the spread, bids below, best prices nearest the middle */}
+          <div className="text-xs font-mono">
+            <div className="grid grid-cols-2 text-muted-foreground pb-1 border-b border-border">
+              <span>Price</span>
+              <span className="text-right">Size</span>
+            </div>
+            {[...book.asks].reverse().map((level) => (
+              <LadderRow key={`ask-${level.price}`} level={level} maxSize={maxSize} color={ASK_COLOR} />
+            ))}
+            <div className="py-1 text-center text-muted-foreground border-y border-border">
+              Spread {spread !== null ? `$${spread.toFixed(2)}` : "—"}
+            </div>
+            {book.bids.map((level) => (
+              <LadderRow key={`bid-${level.price}`} level={level} maxSize={maxSize} color={BID_COLOR} />
+            ))}
+          </div>
+
+          {/* Cumulative depth */}
+          <ResponsiveContainer width="100%" height={320}>
+            <AreaChart data={depth} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+              <XAxis
+                dataKey="price"
+                type="number"
+                domain={["dataMin", "dataMax"]}
+                stroke="rgba(255,255,255,0.5)"
+                tickFormatter={(value: number) => value.toFixed(2)}
+              />
+              <YAxis stroke="rgba(255,255,255,0.5)" width={50} />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: "rgba(15, 20, 25, 0.95)",
+                  border: "1px solid rgba(255,255,255,0.1)",
+                }}
+                labelFormatter={(value: number) => `$${value.toFixed(2)}`}
+              />
+              <Area
+                type="stepBefore"
+                dataKey="bids"
+                name="Bid depth"
+                stroke={BID_COLOR}
+                fill={BID_COLOR}
+                fillOpacity={0.2}
+                isAnimationActive={false}
+              />
+              <Area
+                type="stepAfter"
+                dataKey="asks"
+                name="Ask depth"
+                stroke={ASK_COLOR}
+                fill={ASK_COLOR}
+                fillOpacity={0.2}
+                isAnimationActive={false}
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </>
+  );
+}
+
+function LadderRow({ level, maxSize, color }: { level: BookLevel; maxSize: number; color: string }) {
+  return (
+    <div className="relative grid grid-cols-2 py-0.5">
+      <div
+        className="absolute inset-y-0 right-0 opacity-15"
+        style={{ width: `${(level.size / maxSize) * 100}%`, backgroundColor: color }}
+      />
+      <span className="relative" style={{ color }}>
+        {level.price.toFixed(2)}
+      </span>
+      <span className="relative text-right text-foreground">{level.size.toLocaleString()}</span>
+    </div>
+  );
+}
+
+/**
+ * Shares available at or better than each price, ascending by price:
+ * bid depth grows moving down from the best bid, ask depth moving up
+ */
+function cumulativeDepth(book: OrderBook): { price: number; bids?: number; asks?: number }[] {
+  let total = 0;
+  const bids = book.bids.map((level) => ({ price: level.price, bids: (total += level.size) })).reverse();
+  total = 0;
+  const asks = book.asks.map((level) => ({ price: level.price, asks: (total += level.size) }));
+  return [...bids, ...asks];
+}
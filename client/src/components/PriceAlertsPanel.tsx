@@ -0,0 +1,245 @@
+import { useEffect, useState } from "react";
+import { BellRing, Plus, Send, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { PriceAlertCondition, PriceAlertRule } from "@shared/types";
+import {
+  deleteAlertRule,
+  fetchAlertRules,
+  saveAlertRule,
+  setAlertWebhook,
+  testAlertWebhook,
+} from "@/lib/api";
+import SymbolLink from "@/components/SymbolLink";
+import { useSymbols } from "@/hooks/useSymbols";
+
+type ConditionType = PriceAlertCondition["type"];
+
+const CONDITION_LABELS: Record<ConditionType, string> = {
+  crosses: "Crosses price",
+  percent_move: "Moves % in window",
+  spread: "Spread exceeds %",
+};
+
+export default function PriceAlertsPanel() {
+  const { symbols } = useSymbols();
+  const [rules, setRules] = useState<PriceAlertRule[]>([]);
+  const [webhookDraft, setWebhookDraft] = useState("");
+  const [savedWebhook, setSavedWebhook] = useState<string | null>(null);
+
+  const [type, setType] = useState<ConditionType>("crosses");
+  const [symbol, setSymbol] = useState("");
+  const [value, setValue] = useState("");
+  const [windowSeconds, setWindowSeconds] = useState("300");
+  const [pending, setPending] = useState(false);
+
+  const ruleSymbol = symbols.includes(symbol) ? symbol : symbols[0] ?? "";
+
+  const refresh = async () => {
+    try {
+      const data = await fetchAlertRules();
+      setRules(data.rules);
+      setSavedWebhook(data.webhook_url);
+      setWebhookDraft(data.webhook_url ?? "");
+    } catch (error) {
+      console.warn("Failed to load alert rules:", error);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const buildCondition = (): PriceAlertCondition => {
+    const amount = Number(value);
+    switch (type) {
+      case "crosses":
+        return { type, symbol: ruleSymbol, level: amount, direction: "either" };
+      case "percent_move":
+        return { type, symbol: ruleSymbol, percent: amount, window_seconds: Number(windowSeconds) };
+      case "spread":
+        return { type, symbol: ruleSymbol, percent: amount };
+    }
+  };
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setPending(true);
+    try {
+      const rule = await saveAlertRule({ condition: buildCondition() });
+      setRules((prev) => [...prev, rule]);
+      setValue("");
+      toast.success(`Alert added: ${rule.name}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to add alert");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handleToggle = async (rule: PriceAlertRule, enabled: boolean) => {
+    try {
+      const updated = await saveAlertRule({ name: rule.name, condition: rule.condition, enabled }, rule.id);
+      setRules((prev) => prev.map((r) => (r.id === rule.id ? updated : r)));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update alert");
+    }
+  };
+
+  const handleDelete = async (rule: PriceAlertRule) => {
+    try {
+      await deleteAlertRule(rule.id);
+      setRules((prev) => prev.filter((r) => r.id !== rule.id));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete alert");
+    }
+  };
+
+  const handleSaveWebhook = async () => {
+    try {
+      const url = await setAlertWebhook(webhookDraft.trim() || null);
+      setSavedWebhook(url);
+      toast.success(url ? "Webhook saved" : "Webhook disabled");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save webhook");
+    }
+  };
+
+  const handleTestWebhook = async () => {
+    try {
+      await testAlertWebhook();
+      toast.success("Test alert delivered");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Webhook test failed");
+    }
+  };
+
+  return (
+    <Card className="bg-card border border-border p-6">
+      <div className="mb-4">
+        <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+          <BellRing className="w-4 h-4 text-accent" /> Price Alerts
+        </h2>
+        <p className="text-xs text-muted-foreground">
+          Evaluated on the server on every upstream price update • {rules.length} rules
+        </p>
+      </div>
+
+      <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-2">
+        <Select value={ruleSymbol} onValueChange={setSymbol}>
+          <SelectTrigger size="sm" className="w-[100px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {symbols.map((s) => (
+              <SelectItem key={s} value={s}>
+                {s}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={type} onValueChange={(v) => setType(v as ConditionType)}>
+          <SelectTrigger size="sm" className="w-[170px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(CONDITION_LABELS).map(([key, label]) => (
+              <SelectItem key={key} value={key}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          step="any"
+          min={0}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder={type === "crosses" ? "Price" : "Percent"}
+          className="w-28 h-8"
+          disabled={pending}
+        />
+        {type === "percent_move" && (
+          <Input
+            type="number"
+            min={1}
+            max={3600}
+            value={windowSeconds}
+            onChange={(e) => setWindowSeconds(e.target.value)}
+            placeholder="Window (s)"
+            className="w-28 h-8"
+            title="Window in seconds"
+            disabled={pending}
+          />
+        )}
+        <Button type="submit" size="sm" disabled={pending || !value || !ruleSymbol}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add Alert
+        </Button>
+      </form>
+
+      <div className="mt-4 space-y-2">
+        {rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No alert rules yet.</p>
+        ) : (
+          rules.map((rule) => (
+            <div
+              key={rule.id}
+              className="flex items-center justify-between gap-4 bg-background/50 rounded-lg px-3 py-2 border border-border"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">
+                  <SymbolLink symbol={rule.condition.symbol}>{rule.name}</SymbolLink>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {rule.last_fired_at
+                    ? `Last fired ${new Date(rule.last_fired_at * 1000).toLocaleTimeString()}`
+                    : "Not fired yet"}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={rule.enabled}
+                  onCheckedChange={(checked) => handleToggle(rule, checked)}
+                  aria-label={`Enable ${rule.name}`}
+                />
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(rule)} aria-label={`Delete ${rule.name}`}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="border-t border-border mt-4 pt-4">
+        <p className="text-muted-foreground text-xs uppercase tracking-wider mb-2">Webhook</p>
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            value={webhookDraft}
+            onChange={(e) => setWebhookDraft(e.target.value)}
+            placeholder="https://example.com/hooks/price-alerts"
+            className="flex-1 min-w-[240px] h-8"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleSaveWebhook}
+            disabled={(webhookDraft.trim() || null) === savedWebhook}
+          >
+            Save
+          </Button>
+          <Button size="sm" variant="outline" onClick={handleTestWebhook} disabled={!savedWebhook}>
+            <Send className="w-4 h-4 mr-1" />
+            Test
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
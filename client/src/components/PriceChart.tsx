@@ -12,32 +12,59 @@ import {
 } from "recharts";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { TrendingUp, TrendingDown, Pause, Play, RotateCcw } from "lucide-react";
-import { PriceData } from "@/lib/api";
+import type { CandleInterval } from "@shared/types";
+import { PriceData, fetchHistory, type DataSource } from "@/lib/api";
+import CandleChart from "@/components/CandleChart";
+import SourceBadge from "@/components/SourceBadge";
+import SymbolLink from "@/components/SymbolLink";
+import { symbolColor } from "@/lib/symbolColors";
+import { useSymbols } from "@/hooks/useSymbols";
 
+// One chart row: `time`/`timestamp` plus a price keyed by each symbol
 interface PriceHistoryPoint {
   time: string;
   timestamp: number;
-  AAPL?: number;
-  MSFT?: number;
-  GOOGL?: number;
-  AMZN?: number;
-  TSLA?: number;
+  [symbol: string]: string | number;
 }
 
+type ChartMode = "line" | "candlestick" | "area";
+
+const CHART_MODES: { value: ChartMode; label: string }[] = [
+  { value: "line", label: "Line" },
+  { value: "candlestick", label: "Candles" },
+  { value: "area", label: "Spread" },
+];
+
+const CANDLE_INTERVALS: CandleInterval[] = ["1s", "1m", "5m", "1h"];
+
+type LineScale = "price" | "percent";
+
+// Percent-change series are stored next to the raw price under this prefix
+const PERCENT_KEY = "pct:";
+
 interface PriceChartProps {
   prices: Record<string, PriceData> | null;
+  /** Where `prices` came from, shown as a badge when it isn't live */
+  source?: DataSource | null;
   maxDataPoints?: number;
 }
 
-// Stock colors matching the ticker
-const STOCK_COLORS: Record<string, string> = {
-  AAPL: "#00FF88",  // Green
-  MSFT: "#00D4FF",  // Cyan
-  GOOGL: "#FF6B6B", // Red
-  AMZN: "#FFD93D",  // Yellow
-  TSLA: "#C77DFF",  // Purple
-};
+function formatTime(date: Date): string {
+  return date.toLocaleTimeString("en-US", {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+function formatPercent(value: number): string {
+  return `${value > 0 ? "+" : ""}${value.toFixed(2)}%`;
+}
 
 // Custom tooltip component
 const CustomTooltip = ({ active, payload, label }: any) => {
@@ -45,52 +72,101 @@ const CustomTooltip = ({ active, payload, label }: any) => {
     return (
       <div className="bg-card border border-border rounded-lg p-3 shadow-lg">
         <p className="text-xs text-muted-foreground mb-2">{label}</p>
-        {payload.map((entry: any, index: number) => (
-          <div key={index} className="flex items-center justify-between gap-4 text-sm">
-            <span style={{ color: entry.color }} className="font-medium">
-              {entry.name}
-            </span>
-            <span className="text-foreground font-semibold">
-              ${entry.value?.toFixed(2)}
-            </span>
-          </div>
-        ))}
+        {payload.map((entry: any, index: number) => {
+          const isPercent = String(entry.dataKey).startsWith(PERCENT_KEY);
+          const price = entry.payload[entry.name];
+          return (
+            <div key={index} className="flex items-center justify-between gap-4 text-sm">
+              <span style={{ color: entry.color }} className="font-medium">
+                {entry.name}
+              </span>
+              <span className="text-foreground font-semibold">
+                {isPercent
+                  ? `${formatPercent(entry.value)} ($${price?.toFixed(2)})`
+                  : `$${entry.value?.toFixed(2)}`}
+              </span>
+            </div>
+          );
+        })}
       </div>
     );
   }
   return null;
 };
 
-export default function PriceChart({ prices, maxDataPoints = 60 }: PriceChartProps) {
+export default function PriceChart({ prices, source = null, maxDataPoints = 60 }: PriceChartProps) {
   const [priceHistory, setPriceHistory] = useState<PriceHistoryPoint[]>([]);
   const [isPaused, setIsPaused] = useState(false);
-  const [selectedStocks, setSelectedStocks] = useState<Set<string>>(
-    new Set(["AAPL", "MSFT", "GOOGL", "AMZN", "TSLA"])
-  );
+  const { symbols } = useSymbols();
+  // Track hidden rather than selected stocks so newly added symbols show up
+  const [hiddenStocks, setHiddenStocks] = useState<Set<string>>(new Set());
+  const selectedStocks = new Set(symbols.filter((symbol) => !hiddenStocks.has(symbol)));
   const [priceChanges, setPriceChanges] = useState<Record<string, number>>({});
   const lastPricesRef = useRef<Record<string, number>>({});
+  const lastQuoteTimesRef = useRef<Record<string, string>>({});
+  const backfilledRef = useRef(false);
+  const [mode, setMode] = useState<ChartMode>("line");
+  const [candleInterval, setCandleInterval] = useState<CandleInterval>("1s");
+  // Candlestick and spread modes show one symbol at a time
+  const [focusedSymbol, setFocusedSymbol] = useState("");
+  const chartSymbol = symbols.includes(focusedSymbol) ? focusedSymbol : symbols[0];
+  const [lineScale, setLineScale] = useState<LineScale>("price");
+  const [dualAxes, setDualAxes] = useState(false);
 
-  // Update price history when new prices arrive
+  // Backfill from server-side 1s candles so the chart survives a reload
   useEffect(() => {
-    if (!prices || isPaused) return;
+    if (backfilledRef.current || symbols.length === 0) return;
+    backfilledRef.current = true;
 
-    const now = new Date();
-    const timeStr = now.toLocaleTimeString("en-US", {
-      hour: "2-digit",
-      minute: "2-digit",
-      second: "2-digit",
+    const from = Math.floor(Date.now() / 1000) - maxDataPoints;
+    Promise.all(symbols.map((symbol) => fetchHistory(symbol, "1s", from))).then((histories) => {
+      const points = new Map<number, PriceHistoryPoint>();
+      histories.forEach((candles, i) => {
+        candles.forEach((candle) => {
+          const timestamp = candle.time * 1000;
+          let point = points.get(timestamp);
+          if (!point) {
+            point = { time: formatTime(new Date(timestamp)), timestamp };
+            points.set(timestamp, point);
+          }
+          point[symbols[i]] = candle.close;
+        });
+      });
+      const backfill = Array.from(points.values()).sort((a, b) => a.timestamp - b.timestamp);
+      if (backfill.length === 0) return;
+
+      setPriceHistory((prev) => {
+        // Keep any live points that arrived while history was loading
+        const firstLive = prev[0]?.timestamp ?? Infinity;
+        const merged = [...backfill.filter((p) => p.timestamp < firstLive), ...prev];
+        return merged.slice(-maxDataPoints);
+      });
     });
+  }, [symbols, maxDataPoints]);
+
+  // Update price history when new prices arrive
+  useEffect(() => {
+    if (!prices || isPaused) return;
 
-    // Calculate price changes
+    // Only quotes that actually ticked move the arrows or add a point; a
+    // resync that repeats the same quotes leaves the chart alone
     const changes: Record<string, number> = {};
+    let ticked = false;
     Object.entries(prices).forEach(([symbol, data]) => {
+      if (lastQuoteTimesRef.current[symbol] === data.timestamp) return;
+      lastQuoteTimesRef.current[symbol] = data.timestamp;
+      ticked = true;
       const lastPrice = lastPricesRef.current[symbol];
       if (lastPrice !== undefined) {
         changes[symbol] = data.price - lastPrice;
       }
       lastPricesRef.current[symbol] = data.price;
     });
-    setPriceChanges(changes);
+    if (!ticked) return;
+    setPriceChanges((prev) => ({ ...prev, ...changes }));
+
+    const now = new Date();
+    const timeStr = formatTime(now);
 
     // Create new data point
     const newPoint: PriceHistoryPoint = {
@@ -99,7 +175,7 @@ export default function PriceChart({ prices, maxDataPoints = 60 }: PriceChartPro
     };
 
     Object.entries(prices).forEach(([symbol, data]) => {
-      (newPoint as any)[symbol] = data.price;
+      newPoint[symbol] = data.price;
     });
 
     setPriceHistory((prev) => {
@@ -114,14 +190,12 @@ export default function PriceChart({ prices, maxDataPoints = 60 }: PriceChartPro
 
   // Toggle stock visibility
   const toggleStock = (symbol: string) => {
-    setSelectedStocks((prev) => {
+    setHiddenStocks((prev) => {
       const newSet = new Set(prev);
       if (newSet.has(symbol)) {
+        newSet.delete(symbol);
+      } else if (selectedStocks.size > 1) {
         // Don't allow deselecting all stocks
-        if (newSet.size > 1) {
-          newSet.delete(symbol);
-        }
-      } else {
         newSet.add(symbol);
       }
       return newSet;
@@ -132,20 +206,49 @@ export default function PriceChart({ prices, maxDataPoints = 60 }: PriceChartPro
   const resetChart = () => {
     setPriceHistory([]);
     lastPricesRef.current = {};
+    lastQuoteTimesRef.current = {};
     setPriceChanges({});
   };
 
+  // Rebase each series to 0% at its first visible point
+  const visibleSymbols = symbols.filter((symbol) => selectedStocks.has(symbol));
+  const basePrices: Record<string, number> = {};
+  if (lineScale === "percent") {
+    visibleSymbols.forEach((symbol) => {
+      const first = priceHistory.find((point) => typeof point[symbol] === "number");
+      if (first) basePrices[symbol] = first[symbol] as number;
+    });
+  }
+  const chartData =
+    lineScale === "percent"
+      ? priceHistory.map((point) => {
+          const rebased: PriceHistoryPoint = { ...point };
+          Object.entries(basePrices).forEach(([symbol, base]) => {
+            const value = point[symbol];
+            if (typeof value === "number") {
+              rebased[`${PERCENT_KEY}${symbol}`] = (value / base - 1) * 100;
+            }
+          });
+          return rebased;
+        })
+      : priceHistory;
+  const seriesKey = (symbol: string) => (lineScale === "percent" ? `${PERCENT_KEY}${symbol}` : symbol);
+  // The right-hand axis reads the percent scale in the first visible symbol's dollars
+  const primarySymbol = visibleSymbols[0];
+  const primaryBase = basePrices[primarySymbol];
+  const showDualAxes = lineScale === "percent" && dualAxes && primaryBase !== undefined;
+
   // Calculate min/max for Y-axis domain
   const getYAxisDomain = () => {
-    if (priceHistory.length === 0) return [0, 500];
+    if (chartData.length === 0) return lineScale === "percent" ? [-1, 1] : [0, 500];
 
     let min = Infinity;
     let max = -Infinity;
 
-    priceHistory.forEach((point) => {
-      selectedStocks.forEach((symbol) => {
-        const value = (point as any)[symbol];
-        if (value !== undefined) {
+    chartData.forEach((point) => {
+      visibleSymbols.forEach((symbol) => {
+        const value = point[seriesKey(symbol)];
+        if (typeof value === "number") {
           min = Math.min(min, value);
           max = Math.max(max, value);
         }
@@ -154,8 +257,13 @@ export default function PriceChart({ prices, maxDataPoints = 60 }: PriceChartPro
 
     // Add 5% padding
     const padding = (max - min) * 0.05;
+    if (lineScale === "percent") {
+      const pad = padding || 0.05;
+      return [min - pad, max + pad];
+    }
     return [Math.floor(min - padding), Math.ceil(max + padding)];
   };
+  const yAxisDomain = getYAxisDomain();
 
   // Get current prices for display
   const currentPrices = prices
@@ -171,14 +279,84 @@ export default function PriceChart({ prices, maxDataPoints = 60 }: PriceChartPro
       {/* Header */}
       <div className="flex items-center justify-between mb-4">
         <div>
-          <h2 className="text-lg font-semibold text-foreground">
+          <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
             Real-Time Price Chart
+            <SourceBadge source={source} />
           </h2>
           <p className="text-xs text-muted-foreground">
-            Live stock price fluctuations • {priceHistory.length} data points
+            {mode === "line"
+              ? `Live stock price fluctuations • ${priceHistory.length} data points`
+              : `${chartSymbol} ${candleInterval} bars with volume`}
           </p>
         </div>
-        <div className="flex items-center gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={mode}
+            onValueChange={(value) => value && setMode(value as ChartMode)}
+          >
+            {CHART_MODES.map(({ value, label }) => (
+              <ToggleGroupItem key={value} value={value} className="text-xs px-3">
+                {label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          {mode === "line" && (
+            <>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                size="sm"
+                value={lineScale}
+                onValueChange={(value) => value && setLineScale(value as LineScale)}
+              >
+                <ToggleGroupItem value="price" className="text-xs px-3" title="Absolute price">
+                  $
+                </ToggleGroupItem>
+                <ToggleGroupItem value="percent" className="text-xs px-3" title="% change from start">
+                  %
+                </ToggleGroupItem>
+              </ToggleGroup>
+              {lineScale === "percent" && (
+                <div className="flex items-center gap-2">
+                  <Switch id="price-chart-dual-axes" checked={dualAxes} onCheckedChange={setDualAxes} />
+                  <Label htmlFor="price-chart-dual-axes" className="text-xs">
+                    Dual axes
+                  </Label>
+                </div>
+              )}
+            </>
+          )}
+          {mode !== "line" && (
+            <>
+              <Select value={chartSymbol} onValueChange={setFocusedSymbol}>
+                <SelectTrigger size="sm" className="w-[100px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {symbols.map((symbol) => (
+                    <SelectItem key={symbol} value={symbol}>
+                      {symbol}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={candleInterval} onValueChange={(value) => setCandleInterval(value as CandleInterval)}>
+                <SelectTrigger size="sm" className="w-[70px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CANDLE_INTERVALS.map((interval) => (
+                    <SelectItem key={interval} value={interval}>
+                      {interval}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </>
+          )}
           <Button
             variant="outline"
             size="sm"
@@ -207,8 +385,8 @@ export default function PriceChart({ prices, maxDataPoints = 60 }: PriceChartPro
       </div>
 
       {/* Stock selector pills */}
-      <div className="flex flex-wrap gap-2 mb-4">
-        {Object.keys(STOCK_COLORS).map((symbol) => {
+      <div className={`flex flex-wrap gap-2 mb-4 ${mode === "line" ? "" : "hidden"}`}>
+        {symbols.map((symbol) => {
           const isSelected = selectedStocks.has(symbol);
           const currentPrice = prices?.[symbol]?.price;
           const change = priceChanges[symbol] || 0;
@@ -227,14 +405,14 @@ export default function PriceChart({ prices, maxDataPoints = 60 }: PriceChartPro
                 }
               `}
               style={{
-                backgroundColor: isSelected ? `${STOCK_COLORS[symbol]}20` : undefined,
-                color: isSelected ? STOCK_COLORS[symbol] : undefined,
-                borderColor: isSelected ? STOCK_COLORS[symbol] : undefined,
+                backgroundColor: isSelected ? `${symbolColor(symbol)}20` : undefined,
+                color: isSelected ? symbolColor(symbol) : undefined,
+                borderColor: isSelected ? symbolColor(symbol) : undefined,
               }}
             >
               <span
                 className="w-2 h-2 rounded-full"
-                style={{ backgroundColor: STOCK_COLORS[symbol] }}
+                style={{ backgroundColor: symbolColor(symbol) }}
               />
               <span>{symbol}</span>
               {currentPrice && (
@@ -259,74 +437,98 @@ export default function PriceChart({ prices, maxDataPoints = 60 }: PriceChartPro
       </div>
 
       {/* Chart */}
-      <div className="h-[350px]">
-        {priceHistory.length > 1 ? (
-          <ResponsiveContainer width="100%" height="100%">
-            <LineChart
-              data={priceHistory}
-              margin={{ top: 5, right: 30, left: 10, bottom: 5 }}
-            >
-              <CartesianGrid strokeDasharray="3 3" stroke="#2A3142" />
-              <XAxis
-                dataKey="time"
-                stroke="#A0A0A0"
-                style={{ fontSize: "10px" }}
-                tick={{ fill: "#A0A0A0" }}
-                interval="preserveStartEnd"
-              />
-              <YAxis
-                stroke="#A0A0A0"
-                style={{ fontSize: "10px" }}
-                tick={{ fill: "#A0A0A0" }}
-                domain={getYAxisDomain()}
-                tickFormatter={(value) => `$${value}`}
-              />
-              <Tooltip content={<CustomTooltip />} />
-              <Legend
-                wrapperStyle={{ fontSize: "12px" }}
-                formatter={(value) => (
-                  <span style={{ color: STOCK_COLORS[value] }}>{value}</span>
-                )}
-              />
-              {Object.entries(STOCK_COLORS).map(([symbol, color]) =>
-                selectedStocks.has(symbol) ? (
-                  <Line
-                    key={symbol}
-                    type="monotone"
-                    dataKey={symbol}
-                    stroke={color}
-                    strokeWidth={2}
-                    dot={false}
-                    isAnimationActive={false}
-                    connectNulls
+      {mode !== "line" && chartSymbol ? (
+        <CandleChart
+          symbol={chartSymbol}
+          mode={mode}
+          interval={candleInterval}
+          maxBars={maxDataPoints}
+          isPaused={isPaused}
+        />
+      ) : (
+        <div className="h-[350px]">
+          {priceHistory.length > 1 ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart
+                data={chartData}
+                margin={{ top: 5, right: 30, left: 10, bottom: 5 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" stroke="#2A3142" />
+                <XAxis
+                  dataKey="time"
+                  stroke="#A0A0A0"
+                  style={{ fontSize: "10px" }}
+                  tick={{ fill: "#A0A0A0" }}
+                  interval="preserveStartEnd"
+                />
+                <YAxis
+                  yAxisId="left"
+                  stroke="#A0A0A0"
+                  style={{ fontSize: "10px" }}
+                  tick={{ fill: "#A0A0A0" }}
+                  domain={yAxisDomain}
+                  tickFormatter={(value) => (lineScale === "percent" ? formatPercent(value) : `$${value}`)}
+                />
+                {showDualAxes && (
+                  <YAxis
+                    yAxisId="right"
+                    orientation="right"
+                    stroke={symbolColor(primarySymbol)}
+                    style={{ fontSize: "10px" }}
+                    tick={{ fill: symbolColor(primarySymbol) }}
+                    domain={yAxisDomain}
+                    tickFormatter={(value) => `$${(primaryBase * (1 + value / 100)).toFixed(2)}`}
                   />
-                ) : null
-              )}
-            </LineChart>
-          </ResponsiveContainer>
-        ) : (
-          <div className="h-full flex items-center justify-center text-muted-foreground">
-            <div className="text-center">
-              <TrendingUp className="w-12 h-12 mx-auto mb-3 opacity-50" />
-              <p className="text-sm">Collecting price data...</p>
-              <p className="text-xs mt-1">Chart will appear after 2+ data points</p>
+                )}
+                <Tooltip content={<CustomTooltip />} />
+                <Legend
+                  wrapperStyle={{ fontSize: "12px" }}
+                  formatter={(value) => (
+                    <span style={{ color: symbolColor(value) }}>{value}</span>
+                  )}
+                />
+                {lineScale === "percent" && (
+                  <ReferenceLine yAxisId="left" y={0} stroke="#A0A0A0" strokeDasharray="4 4" />
+                )}
+                {symbols.map((symbol) =>
+                  selectedStocks.has(symbol) ? (
+                    <Line
+                      key={symbol}
+                      yAxisId="left"
+                      type="monotone"
+                      dataKey={seriesKey(symbol)}
+                      name={symbol}
+                      stroke={symbolColor(symbol)}
+                      strokeWidth={2}
+                      dot={false}
+                      isAnimationActive={false}
+                      connectNulls
+                    />
+                  ) : null
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-full flex items-center justify-center text-muted-foreground">
+              <div className="text-center">
+                <TrendingUp className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                <p className="text-sm">Collecting price data...</p>
+                <p className="text-xs mt-1">Chart will appear after 2+ data points</p>
+              </div>
             </div>
-          </div>
-        )}
-      </div>
+          )}
+        </div>
+      )}
 
       {/* Price summary cards */}
-      <div className="grid grid-cols-5 gap-2 mt-4">
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-2 mt-4">
         {currentPrices.map(({ symbol, price, change }) => (
           <div
             key={symbol}
             className="bg-background/50 rounded-lg p-2 text-center border border-border"
           >
-            <div
-              className="text-xs font-semibold mb-1"
-              style={{ color: STOCK_COLORS[symbol] }}
-            >
-              {symbol}
+            <div className="text-xs font-semibold mb-1">
+              <SymbolLink symbol={symbol} />
             </div>
             <div className="text-sm font-bold text-foreground">
               ${price.toFixed(2)}
@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { Timer } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import SymbolLink from "@/components/SymbolLink";
+import type { SchedulerStatus } from "@shared/types";
+import { fetchSchedulerStatus } from "@/lib/api";
+
+const formatMs = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`);
+
+/**
+ * When each symbol is next refreshed in the background and how its interval
+ * has adapted, plus the upstream budget that reads and refreshes share.
+ * Soonest refresh first.
+ */
+export default function RefreshSchedulerPanel() {
+  const [status, setStatus] = useState<SchedulerStatus | null>(null);
+
+  useEffect(() => {
+    const refresh = async () => {
+      try {
+        setStatus(await fetchSchedulerStatus());
+      } catch (error) {
+        console.warn("Failed to fetch refresh scheduler status:", error);
+      }
+    };
+
+    refresh();
+    const interval = setInterval(refresh, 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!status) return null;
+
+  const { budget } = status;
+  const now = Date.now() / 1000;
+  const symbols = [...status.symbols].sort((a, b) => a.next_refresh_at - b.next_refresh_at);
+  const summary: [string, string][] = [
+    ["Upstream Budget", budget ? `${budget.per_second}/s (${budget.available_tokens} free)` : "Unlimited"],
+    [
+      "Upstream Calls",
+      budget ? `${budget.foreground_calls.toLocaleString()} read • ${budget.background_calls.toLocaleString()} bg` : "—",
+    ],
+    ["Intervals", `${formatMs(status.min_interval_ms)} – ${formatMs(status.max_interval_ms)}`],
+    ["Refreshes", status.refreshes.toLocaleString()],
+    ["Errors", status.refresh_errors.toLocaleString()],
+    ["Deferred", status.deferred.toLocaleString()],
+  ];
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Timer className="w-5 h-5 text-accent" /> Refresh Scheduler
+        </h3>
+        <span className={`text-xs font-semibold ${status.enabled ? "text-green-400" : "text-muted-foreground"}`}>
+          {status.enabled ? "RUNNING" : "DISABLED"}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4 text-sm mb-4">
+        {summary.map(([name, value]) => (
+          <div key={name}>
+            <div className="text-muted-foreground mb-1">{name}</div>
+            <div className="font-semibold">{value}</div>
+          </div>
+        ))}
+      </div>
+
+      {symbols.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {status.enabled ? "No symbols scheduled yet." : "Set REFRESH_SCHEDULER=true to refresh symbols in the background."}
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Symbol</TableHead>
+              <TableHead className="text-right">Interval</TableHead>
+              <TableHead className="text-right">Next In</TableHead>
+              <TableHead className="text-right">Last Refresh</TableHead>
+              <TableHead className="text-right">Duration</TableHead>
+              <TableHead className="text-right">Reads/s</TableHead>
+              <TableHead className="text-right">Volatility</TableHead>
+              <TableHead>Last Error</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {symbols.map((entry) => (
+              <TableRow key={entry.symbol}>
+                <TableCell className="font-semibold">
+                  <SymbolLink symbol={entry.symbol} />
+                </TableCell>
+                <TableCell className="text-right font-mono">{formatMs(entry.interval_ms)}</TableCell>
+                <TableCell className="text-right font-mono">
+                  {!entry.cached
+                    ? "not cached"
+                    : entry.next_refresh_at <= now
+                      ? "due"
+                      : formatMs((entry.next_refresh_at - now) * 1000)}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {entry.last_refresh_at ? new Date(entry.last_refresh_at * 1000).toLocaleTimeString() : "Never"}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {entry.last_duration_ms !== null ? formatMs(entry.last_duration_ms) : "—"}
+                </TableCell>
+                <TableCell className="text-right font-mono">{entry.reads_per_second.toFixed(2)}</TableCell>
+                <TableCell className="text-right font-mono">{entry.volatility_bps.toFixed(1)} bps</TableCell>
+                <TableCell className="max-w-48 truncate text-xs">
+                  {entry.last_error ? (
+                    <span
+                      className="text-red-400"
+                      title={`${new Date(entry.last_error.time * 1000).toLocaleTimeString()}: ${entry.last_error.message}`}
+                    >
+                      {entry.last_error.message}
+                    </span>
+                  ) : (
+                    <span className="text-muted-foreground">—</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import { BellOff, Check, ShieldAlert } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import type { SloAlert, SloRule, SloStatusResponse } from "@shared/types";
+import { acknowledgeSloAlert, fetchSloStatus, silenceSloRule } from "@/lib/api";
+
+const SILENCE_OPTIONS = [
+  { label: "15m", seconds: 900 },
+  { label: "1h", seconds: 3600 },
+];
+
+/**
+ * Operational SLO rules, their current readings and the alert history,
+ * with acknowledge and silence controls
+ */
+export default function SloAlertsPanel() {
+  const [status, setStatus] = useState<SloStatusResponse | null>(null);
+
+  const refresh = async () => {
+    try {
+      setStatus(await fetchSloStatus());
+    } catch (error) {
+      console.warn("Failed to fetch SLO status:", error);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, 5000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleAcknowledge = async (alert: SloAlert) => {
+    try {
+      await acknowledgeSloAlert(alert.id);
+      refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to acknowledge alert");
+    }
+  };
+
+  const handleSilence = async (rule: SloRule, seconds: number) => {
+    try {
+      await silenceSloRule(rule.kind, seconds);
+      refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to silence rule");
+    }
+  };
+
+  if (!status) return null;
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6 mb-8">
+      <h3 className="font-semibold mb-4 flex items-center gap-2">
+        <ShieldAlert className="w-5 h-5 text-accent" /> Operational Alerts
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        {status.rules.map((rule) => (
+          <div
+            key={rule.kind}
+            className={`rounded-lg border p-4 ${rule.firing ? "border-red-500/50 bg-red-500/10" : "border-border bg-background/50"}`}
+          >
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <p className="text-sm font-medium">{rule.description}</p>
+                <p className={`text-2xl font-bold ${rule.firing ? "text-red-400" : "text-green-400"}`}>
+                  {formatReading(rule)}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                {rule.silenced_until ? (
+                  <Button variant="ghost" size="sm" onClick={() => handleSilence(rule, 0)} title="Lift silence">
+                    <BellOff className="w-4 h-4 mr-1" />
+                    {new Date(rule.silenced_until * 1000).toLocaleTimeString()}
+                  </Button>
+                ) : (
+                  SILENCE_OPTIONS.map(({ label, seconds }) => (
+                    <Button
+                      key={label}
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleSilence(rule, seconds)}
+                      title={`Silence for ${label}`}
+                    >
+                      <BellOff className="w-3 h-3 mr-1" />
+                      {label}
+                    </Button>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <h4 className="font-semibold mb-3">Alert History</h4>
+      {status.alerts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No operational alerts have fired.</p>
+      ) : (
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {status.alerts.map((alert) => (
+            <div
+              key={alert.id}
+              className="flex items-center justify-between gap-4 bg-background/50 rounded-lg px-3 py-2 border border-border text-sm"
+            >
+              <div className="min-w-0">
+                <p className={alert.resolved_at === null ? "text-red-400 font-medium" : "text-muted-foreground"}>
+                  {alert.message}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(alert.started_at * 1000).toLocaleTimeString()}
+                  {alert.resolved_at !== null
+                    ? ` → resolved ${new Date(alert.resolved_at * 1000).toLocaleTimeString()}`
+                    : " • firing"}
+                  {alert.silenced && " • silenced"}
+                </p>
+              </div>
+              {alert.acknowledged_at === null ? (
+                <Button variant="outline" size="sm" onClick={() => handleAcknowledge(alert)}>
+                  <Check className="w-4 h-4 mr-1" />
+                  Ack
+                </Button>
+              ) : (
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  Acked {new Date(alert.acknowledged_at * 1000).toLocaleTimeString()}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatReading(rule: SloRule): string {
+  if (rule.value === null) return "—";
+  return rule.unit === "µs" ? `${rule.value.toFixed(1)} µs` : `${rule.value.toFixed(1)}${rule.unit}`;
+}
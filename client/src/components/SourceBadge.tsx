@@ -0,0 +1,32 @@
+import { AlertCircle, Clock } from "lucide-react";
+import type { DataSource } from "@/lib/api";
+
+/**
+ * Marks a panel whose data isn't live: generated in the browser, or served
+ * from cache entries past their TTL. Renders nothing for live data.
+ */
+export default function SourceBadge({ source }: { source: DataSource | null }) {
+  if (source === "synthetic") {
+    return (
+      <span
+        className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-[10px] font-semibold uppercase tracking-wider text-yellow-400 bg-yellow-900/20 border-yellow-800/50"
+        title="API unreachable, showing generated data"
+      >
+        <AlertCircle className="w-3 h-3" />
+        Synthetic
+      </span>
+    );
+  }
+  if (source === "stale") {
+    return (
+      <span
+        className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-[10px] font-semibold uppercase tracking-wider text-amber-400 bg-amber-900/20 border-amber-800/50"
+        title="Served from cache entries past their TTL"
+      >
+        <Clock className="w-3 h-3" />
+        Stale
+      </span>
+    );
+  }
+  return null;
+}
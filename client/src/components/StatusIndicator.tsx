@@ -1,29 +1,44 @@
-import { CheckCircle, AlertCircle } from "lucide-react";
+import { CheckCircle, AlertCircle, Clock, Loader2 } from "lucide-react";
 import { useApiStatusContext } from "@/contexts/ApiStatusContext";
 
+const STATUS_STYLES = {
+  live: {
+    icon: CheckCircle,
+    label: "✓ API LIVE",
+    title: "Connected to live API",
+    className: "text-green-400 bg-green-900/20 border-green-800/50",
+  },
+  stale: {
+    icon: Clock,
+    label: "API Live • Stale Cache",
+    title: "Connected to live API, but quotes are past their TTL",
+    className: "text-amber-400 bg-amber-900/20 border-amber-800/50",
+  },
+  synthetic: {
+    icon: AlertCircle,
+    label: "Using Fallback Data",
+    title: "API unreachable, showing generated data",
+    className: "text-yellow-400 bg-yellow-900/20 border-yellow-800/50",
+  },
+  checking: {
+    icon: Loader2,
+    label: "Checking API...",
+    title: "Waiting for the first API response",
+    className: "text-muted-foreground bg-muted/20 border-border",
+  },
+};
+
 export default function StatusIndicator() {
-  const { isRealApi } = useApiStatusContext();
+  const { source } = useApiStatusContext();
+  const { icon: Icon, label, title, className } = STATUS_STYLES[source ?? "checking"];
 
   return (
     <div
-      className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-xs font-medium ${
-        isRealApi
-          ? "text-green-400 bg-green-900/20 border-green-800/50"
-          : "text-yellow-400 bg-yellow-900/20 border-yellow-800/50"
-      }`}
-      title={isRealApi ? "Connected to live API" : "Using fallback data"}
+      className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-xs font-medium ${className}`}
+      title={title}
     >
-      {isRealApi ? (
-        <>
-          <CheckCircle className="w-4 h-4" />
-          <span>✓ API LIVE</span>
-        </>
-      ) : (
-        <>
-          <AlertCircle className="w-4 h-4" />
-          <span>Using Fallback Data</span>
-        </>
-      )}
+      <Icon className={`w-4 h-4 ${source === null ? "animate-spin" : ""}`} />
+      <span>{label}</span>
     </div>
   );
 }
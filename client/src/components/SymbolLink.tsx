@@ -0,0 +1,34 @@
+import type { CSSProperties, MouseEvent, ReactNode } from "react";
+import { Link } from "wouter";
+import { symbolColor } from "@/lib/symbolColors";
+
+export function symbolPath(symbol: string): string {
+  return `/symbol/${encodeURIComponent(symbol.toUpperCase())}`;
+}
+
+interface SymbolLinkProps {
+  symbol: string;
+  /** Defaults to the symbol itself */
+  children?: ReactNode;
+  className?: string;
+  /** Drop the symbol's chart colour, e.g. inside an already coloured heading */
+  plain?: boolean;
+  style?: CSSProperties;
+}
+
+/**
+ * A symbol mention that opens its detail page. Clicks don't bubble, so it can
+ * sit inside rows and items that have their own click handler.
+ */
+export default function SymbolLink({ symbol, children, className = "", plain = false, style }: SymbolLinkProps) {
+  return (
+    <Link
+      href={symbolPath(symbol)}
+      className={`hover:underline underline-offset-2 ${className}`}
+      style={plain ? style : { color: symbolColor(symbol), ...style }}
+      onClick={(event: MouseEvent) => event.stopPropagation()}
+    >
+      {children ?? symbol}
+    </Link>
+  );
+}
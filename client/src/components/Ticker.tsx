@@ -1,9 +1,11 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { usePrices } from "@/hooks/usePrice";
+import { useSymbols } from "@/hooks/useSymbols";
+import SourceBadge from "@/components/SourceBadge";
+import OrderBookDialog from "@/components/OrderBookDialog";
+import SymbolLink from "@/components/SymbolLink";
 import { TrendingUp, TrendingDown } from "lucide-react";
 
-const SYMBOLS = ["AAPL", "MSFT", "GOOGL", "AMZN", "TSLA"];
-
 interface TickerItem {
   symbol: string;
   price: number;
@@ -13,63 +15,41 @@ interface TickerItem {
 }
 
 export default function Ticker() {
-  const { prices } = usePrices(2000);
+  const { prices, source } = usePrices();
+  const { symbols } = useSymbols();
   const [tickerItems, setTickerItems] = useState<TickerItem[]>([]);
-  const [previousPrices, setPreviousPrices] = useState<Record<string, number>>({});
-
-  // Initialize previous prices
-  useEffect(() => {
-    if (!prices || typeof prices !== "object") return;
-
-    const pricesObj = prices as Record<string, any>;
-    const initial: Record<string, number> = {};
-
-    SYMBOLS.forEach((symbol) => {
-      const priceData = pricesObj[symbol];
-      if (priceData && typeof priceData === "object" && "price" in priceData) {
-        initial[symbol] = priceData.price;
-      }
-    });
-
-    if (Object.keys(initial).length > 0) {
-      setPreviousPrices(initial);
-    }
-  }, []);
+  const [bookSymbol, setBookSymbol] = useState<string | null>(null);
+  // Last quote seen per symbol, so a change is only measured when that symbol ticks
+  const lastQuotesRef = useRef<Record<string, { timestamp: string; price: number; change: number }>>({});
 
   // Update ticker items when prices change
   useEffect(() => {
-    if (!prices || typeof prices !== "object") return;
+    if (!prices) return;
 
-    const pricesObj = prices as Record<string, any>;
     const items: TickerItem[] = [];
 
-    SYMBOLS.forEach((symbol) => {
-      const priceData = pricesObj[symbol];
-      if (priceData && typeof priceData === "object" && "price" in priceData) {
-        const previousPrice = previousPrices[symbol] || priceData.price;
-        const change = priceData.price - previousPrice;
-        const changePercent = previousPrice > 0 ? (change / previousPrice) * 100 : 0;
-
-        items.push({
-          symbol,
-          price: priceData.price,
-          change,
-          changePercent,
-          latency: priceData.latency_us || 0,
-        });
-
-        // Update previous price for next comparison
-        setPreviousPrices((prev) => ({
-          ...prev,
-          [symbol]: priceData.price,
-        }));
-      }
+    symbols.forEach((symbol) => {
+      const priceData = prices[symbol];
+      if (!priceData) return;
+
+      const last = lastQuotesRef.current[symbol];
+      const change = !last ? 0 : last.timestamp === priceData.timestamp ? last.change : priceData.price - last.price;
+      lastQuotesRef.current[symbol] = { timestamp: priceData.timestamp, price: priceData.price, change };
+      const previousPrice = priceData.price - change;
+
+      items.push({
+        symbol,
+        price: priceData.price,
+        change,
+        changePercent: previousPrice > 0 ? (change / previousPrice) * 100 : 0,
+        latency: priceData.latency_us || 0,
+      });
     });
 
     if (items.length > 0) {
       setTickerItems(items);
     }
-  }, [prices]);
+  }, [prices, symbols]);
 
   if (tickerItems.length === 0) {
     return null;
@@ -84,6 +64,9 @@ export default function Ticker() {
         {/* Gradient overlays for fade effect */}
         <div className="absolute left-0 top-0 bottom-0 w-12 bg-gradient-to-r from-card to-transparent z-10 pointer-events-none" />
         <div className="absolute right-0 top-0 bottom-0 w-12 bg-gradient-to-l from-card to-transparent z-10 pointer-events-none" />
+        <div className="absolute right-4 top-1/2 -translate-y-1/2 z-20">
+          <SourceBadge source={source} />
+        </div>
 
         {/* Scrolling container */}
         <div className="flex animate-scroll whitespace-nowrap gap-8 px-4">
@@ -91,9 +74,11 @@ export default function Ticker() {
             <div
               key={`${item.symbol}-${idx}`}
               className="flex items-center gap-3 flex-shrink-0 group cursor-pointer hover:opacity-80 transition-opacity"
+              onClick={() => setBookSymbol(item.symbol)}
+              title={`Open the ${item.symbol} order book`}
             >
               {/* Symbol */}
-              <span className="font-bold text-accent text-sm min-w-12">{item.symbol}</span>
+              <SymbolLink symbol={item.symbol} className="font-bold text-sm min-w-12" />
 
               {/* Price */}
               <span className="text-foreground font-semibold text-sm min-w-20">
@@ -133,6 +118,8 @@ export default function Ticker() {
         </div>
       </div>
 
+      <OrderBookDialog symbol={bookSymbol} onClose={() => setBookSymbol(null)} />
+
       {/* CSS for scrolling animation */}
       <style>{`
         @keyframes scroll {
@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { toast } from "sonner";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useSymbols } from "@/hooks/useSymbols";
+import { symbolColor } from "@/lib/symbolColors";
+import SymbolLink from "@/components/SymbolLink";
+
+export default function WatchlistEditor() {
+  const { symbols, addSymbol, removeSymbol } = useSymbols();
+  const [draft, setDraft] = useState("");
+  const [pending, setPending] = useState(false);
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const symbol = draft.trim().toUpperCase();
+    if (!symbol) return;
+
+    setPending(true);
+    try {
+      await addSymbol(symbol);
+      setDraft("");
+      toast.success(`Now tracking ${symbol}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to add ${symbol}`);
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handleRemove = async (symbol: string) => {
+    try {
+      await removeSymbol(symbol);
+      toast.success(`Stopped tracking ${symbol}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to remove ${symbol}`);
+    }
+  };
+
+  return (
+    <Card className="bg-card border border-border p-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-foreground">Watchlist</h2>
+          <p className="text-xs text-muted-foreground">
+            Symbols tracked by the price cache • {symbols.length} total
+          </p>
+        </div>
+        <form onSubmit={handleAdd} className="flex items-center gap-2">
+          <Input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Add symbol, e.g. NVDA"
+            className="w-48 uppercase"
+            maxLength={10}
+            disabled={pending}
+          />
+          <Button type="submit" size="sm" disabled={pending || !draft.trim()}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        </form>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mt-4">
+        {symbols.map((symbol) => (
+          <span
+            key={symbol}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium border"
+            style={{
+              backgroundColor: `${symbolColor(symbol)}20`,
+              color: symbolColor(symbol),
+              borderColor: symbolColor(symbol),
+            }}
+          >
+            <SymbolLink symbol={symbol} plain />
+            <button
+              onClick={() => handleRemove(symbol)}
+              className="hover:opacity-70 transition-opacity"
+              aria-label={`Remove ${symbol}`}
+              disabled={symbols.length <= 1}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -1,17 +1,19 @@
-import { createContext, useContext, useState, ReactNode } from "react";
+import { createContext, useContext, useSyncExternalStore, ReactNode } from "react";
+import { getDataSource, subscribeDataSource, type DataSource } from "@/lib/api";
 
 interface ApiStatusContextType {
+  /** Least trustworthy source among recent API reads, null before the first */
+  source: DataSource | null;
   isRealApi: boolean;
-  setIsRealApi: (value: boolean) => void;
 }
 
 const ApiStatusContext = createContext<ApiStatusContextType | undefined>(undefined);
 
 export function ApiStatusProvider({ children }: { children: ReactNode }) {
-  const [isRealApi, setIsRealApi] = useState(false);
+  const source = useSyncExternalStore(subscribeDataSource, getDataSource);
 
   return (
-    <ApiStatusContext.Provider value={{ isRealApi, setIsRealApi }}>
+    <ApiStatusContext.Provider value={{ source, isRealApi: source === "live" || source === "stale" }}>
       {children}
     </ApiStatusContext.Provider>
   );
@@ -1,107 +1,37 @@
-import { useEffect, useState } from "react";
-import { fetchPrice, fetchAllPrices, fetchStats, PriceData, CacheStats } from "@/lib/api";
+import { useSyncExternalStore } from "react";
+import { priceFeed, statsFeed } from "@/lib/priceStore";
 
 /**
- * Hook to fetch and update a single price
+ * Hook to follow a single price from the shared price feed
  */
-export function usePrice(symbol: string, interval: number = 2000) {
-  const [price, setPrice] = useState<PriceData | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        setLoading(true);
-        const data = await fetchPrice(symbol);
-        if (data) {
-          setPrice(data);
-          setError(null);
-        } else {
-          setError(`Failed to fetch price for ${symbol}`);
-        }
-      } catch (err) {
-        setError(err instanceof Error ? err.message : "Unknown error");
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchData();
-
-    const timer = setInterval(fetchData, interval);
-    return () => clearInterval(timer);
-  }, [symbol, interval]);
-
-  return { price, loading, error };
+export function usePrice(symbol: string) {
+  const { data, loading, error, source, streaming } = useSyncExternalStore(priceFeed.subscribe, priceFeed.getSnapshot);
+  const price = data?.[symbol.toUpperCase()] ?? null;
+
+  return {
+    price,
+    loading,
+    error: error ?? (!loading && !price ? `No price for ${symbol}` : null),
+    source,
+    streaming,
+  };
 }
 
 /**
- * Hook to fetch and update all prices
+ * Hook to follow all tracked prices from the shared price feed
  */
-export function usePrices(interval: number = 2000) {
-  const [prices, setPrices] = useState<Record<string, PriceData> | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        setLoading(true);
-        const data = await fetchAllPrices();
-        if (data) {
-          setPrices(data);
-          setError(null);
-        } else {
-          setError("Failed to fetch prices");
-        }
-      } catch (err) {
-        setError(err instanceof Error ? err.message : "Unknown error");
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchData();
-
-    const timer = setInterval(fetchData, interval);
-    return () => clearInterval(timer);
-  }, [interval]);
-
-  return { prices, loading, error };
+export function usePrices() {
+  const { data, loading, error, source, streaming } = useSyncExternalStore(priceFeed.subscribe, priceFeed.getSnapshot);
+  return { prices: data, loading, error, source, streaming };
 }
 
+const refreshStats = () => statsFeed.refresh();
+
 /**
- * Hook to fetch and update cache statistics
+ * Hook to follow cache statistics from the shared stats feed. `stats` is the
+ * cache counters; `details` adds the histogram, size and eviction status.
  */
-export function useStats(interval: number = 2000) {
-  const [stats, setStats] = useState<CacheStats | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        setLoading(true);
-        const data = await fetchStats();
-        if (data) {
-          setStats(data);
-          setError(null);
-        } else {
-          setError("Failed to fetch stats");
-        }
-      } catch (err) {
-        setError(err instanceof Error ? err.message : "Unknown error");
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchData();
-
-    const timer = setInterval(fetchData, interval);
-    return () => clearInterval(timer);
-  }, [interval]);
-
-  return { stats, loading, error };
+export function useStats() {
+  const { data, loading, error, source, streaming } = useSyncExternalStore(statsFeed.subscribe, statsFeed.getSnapshot);
+  return { stats: data?.cache_stats ?? null, details: data, loading, error, source, streaming, refresh: refreshStats };
 }
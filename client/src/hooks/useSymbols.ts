@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from "react";
+import { watchlist } from "@/lib/priceStore";
+
+/**
+ * Hook to follow the server-managed symbol watchlist from the shared store
+ */
+export function useSymbols() {
+  const { symbols, loading } = useSyncExternalStore(watchlist.subscribe, watchlist.getSnapshot);
+  return {
+    symbols,
+    loading,
+    addSymbol: watchlist.add,
+    removeSymbol: watchlist.remove,
+    refresh: watchlist.refresh,
+  };
+}
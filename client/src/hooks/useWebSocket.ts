@@ -13,7 +13,6 @@ interface WebSocketOptions {
 export function useWebSocket({
   url,
   onMessage,
-  onError,
   onOpen,
   onClose,
   reconnectInterval = 3000,
@@ -25,6 +24,14 @@ export function useWebSocket({
   const [isConnected, setIsConnected] = useState(false);
   const [lastError, setLastError] = useState<string | null>(null);
 
+  // Keep the latest callbacks in refs so inline handlers don't force a reconnect on every render
+  const onMessageRef = useRef(onMessage);
+  const onOpenRef = useRef(onOpen);
+  const onCloseRef = useRef(onClose);
+  onMessageRef.current = onMessage;
+  onOpenRef.current = onOpen;
+  onCloseRef.current = onClose;
+
   const connect = useCallback(() => {
     try {
       // Convert http/https to ws/wss
@@ -39,13 +46,13 @@ export function useWebSocket({
         setIsConnected(true);
         setLastError(null);
         reconnectAttemptsRef.current = 0;
-        onOpen?.();
+        onOpenRef.current?.();
       };
 
       ws.onmessage = (event) => {
         try {
           const data = JSON.parse(event.data);
-          onMessage(data);
+          onMessageRef.current(data);
         } catch (e) {
           console.error("Failed to parse WebSocket message:", e);
         }
@@ -61,7 +68,7 @@ export function useWebSocket({
       ws.onclose = () => {
         console.log("✗ WebSocket disconnected");
         setIsConnected(false);
-        onClose?.();
+        onCloseRef.current?.();
 
         // Attempt reconnect with exponential backoff
         if (reconnectAttemptsRef.current < maxReconnectAttempts) {
@@ -83,13 +90,15 @@ export function useWebSocket({
       console.debug("Failed to create WebSocket (expected when API unavailable):", error);
       setLastError(String(error));
     }
-  }, [url, onMessage, onError, onOpen, onClose, reconnectInterval, maxReconnectAttempts]);
+  }, [url, reconnectInterval, maxReconnectAttempts]);
 
   const disconnect = useCallback(() => {
     if (reconnectTimeoutRef.current) {
       clearTimeout(reconnectTimeoutRef.current);
     }
     if (wsRef.current) {
+      // Intentional close: skip the reconnect logic in onclose
+      wsRef.current.onclose = null;
       wsRef.current.close();
       wsRef.current = null;
     }
@@ -1,41 +1,119 @@
 /**
  * API Client Service
  * Handles all communication with the price cache backend
- * Includes fallback data generation for deployed environments
+ * Includes fallback data generation for deployed environments; every read
+ * reports whether its value is live, stale or synthetic
  */
 
-// Use environment-specific API endpoint
-// In development: use /api (proxied by Vite to localhost:8000)
-// In production: use the public API URL
-const API_BASE_URL = import.meta.env.PROD 
-  ? 'https://8000-i1glh2xemmtgdmn5i8m2x-acd71ebb.us2.manus.computer'
-  : '/api';
+import type {
+  AlertRulesResponse,
+  BenchmarkConfig,
+  BenchmarkProgress,
+  BenchmarkRun,
+  CacheStats,
+  Candle,
+  CandleInterval,
+  CircuitBreakerMetrics,
+  EvictionConfigInput,
+  EvictionStatus,
+  HealthStatus,
+  OrderBook,
+  PriceAlertRule,
+  PriceAlertRuleInput,
+  PriceData,
+  SchedulerStatus,
+  SloAlert,
+  SloStatusResponse,
+  StatsBreakdownResponse,
+  StatsResponse,
+  SymbolStats,
+} from '@shared/types';
 
-export interface PriceData {
-  symbol: string;
-  price: number;
-  bid: number;
-  ask: number;
-  volume: number;
-  timestamp: string;
-  latency_ns: number;
-  latency_us: number;
-  source: string;
+import { apiBaseUrl } from './config';
+
+export type { PriceData, CacheStats, HealthStatus } from '@shared/types';
+
+/**
+ * Absolute WebSocket URL for an API stream path such as `/ws/stats`
+ * on the selected backend
+ */
+export function apiWebSocketUrl(path: string): string {
+  const url = new URL(`${apiBaseUrl()}${path}`, window.location.href);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  return url.toString();
+}
+
+/**
+ * Where a value came from: the backend serving fresh quotes, the backend
+ * serving quotes past their TTL, or data generated in the browser because
+ * the backend could not be reached
+ */
+export type DataSource = 'live' | 'stale' | 'synthetic';
+
+export interface ApiResult<T> {
+  data: T;
+  source: DataSource;
+}
+
+export type DataResource = 'prices' | 'stats' | 'health' | 'circuit_breaker';
+
+// Reports older than this no longer count towards the app-wide status
+const SOURCE_REPORT_TTL_MS = 30000;
+const SOURCE_RANK: Record<DataSource, number> = { live: 0, stale: 1, synthetic: 2 };
+
+const sourceReports = new Map<DataResource, { source: DataSource; at: number }>();
+const sourceListeners = new Set<() => void>();
+let overallSource: DataSource | null = null;
+
+/**
+ * Record where the latest value of a resource came from
+ * Called by every read below, and by the live store for streamed values
+ */
+export function reportDataSource(resource: DataResource, source: DataSource) {
+  const now = Date.now();
+  sourceReports.set(resource, { source, at: now });
+  let worst: DataSource | null = null;
+  sourceReports.forEach((report, key) => {
+    if (now - report.at > SOURCE_REPORT_TTL_MS) {
+      sourceReports.delete(key);
+    } else if (worst === null || SOURCE_RANK[report.source] > SOURCE_RANK[worst]) {
+      worst = report.source;
+    }
+  });
+  if (worst !== overallSource) {
+    overallSource = worst;
+    sourceListeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * The least trustworthy source among recent reads, or null before any read
+ */
+export function getDataSource(): DataSource | null {
+  return overallSource;
+}
+
+export function subscribeDataSource(listener: () => void): () => void {
+  sourceListeners.add(listener);
+  return () => sourceListeners.delete(listener);
 }
 
-export interface CacheStats {
-  cache_hits: number;
-  cache_misses: number;
-  total_requests: number;
-  hit_rate_percent: number;
-  avg_latency_us: number;
+/**
+ * Classify quotes served by the backend: stale when any is past its TTL
+ */
+export function priceSource(prices: PriceData[]): DataSource {
+  return prices.some((price) => price.freshness !== 'fresh') ? 'stale' : 'live';
 }
 
-export interface HealthStatus {
-  status: string;
-  timestamp: number;
+function result<T>(resource: DataResource, data: T, source: DataSource): ApiResult<T> {
+  reportDataSource(resource, source);
+  return { data, source };
 }
 
+// Last symbol list returned by the server, used to shape fallback data
+const DEFAULT_SYMBOLS = ["AAPL", "MSFT", "GOOGL", "AMZN", "TSLA"];
+let knownSymbols: string[] = DEFAULT_SYMBOLS;
+
 // Store for generated fallback data
 let fallbackDataCache: Record<string, PriceData> = {};
 let lastFallbackUpdate = 0;
@@ -67,6 +145,8 @@ function generateFallbackPriceData(symbol: string): PriceData {
     latency_ns: Math.floor(Math.random() * 1000) + 100, // 100-1100ns
     latency_us: parseFloat((Math.random() * 0.8 + 0.1).toFixed(2)), // 0.1-0.9µs
     source: "fallback",
+    freshness: "fresh",
+    age_ms: 0,
   };
 }
 
@@ -78,10 +158,9 @@ function getFallbackData(forceRefresh = false): Record<string, PriceData> {
   const cacheExpiry = 2000; // 2 seconds
 
   if (forceRefresh || now - lastFallbackUpdate > cacheExpiry || Object.keys(fallbackDataCache).length === 0) {
-    const symbols = ["AAPL", "MSFT", "GOOGL", "AMZN", "TSLA"];
     fallbackDataCache = {};
 
-    symbols.forEach((symbol) => {
+    knownSymbols.forEach((symbol) => {
       fallbackDataCache[symbol] = generateFallbackPriceData(symbol);
     });
 
@@ -94,77 +173,291 @@ function getFallbackData(forceRefresh = false): Record<string, PriceData> {
 
 /**
  * Fetch a single price from cache
+ * Returns null for a symbol the fallback data doesn't cover either
  */
-export async function fetchPrice(symbol: string): Promise<PriceData | null> {
+export async function fetchPrice(symbol: string): Promise<ApiResult<PriceData> | null> {
+  const key = symbol.toUpperCase();
   try {
-    const response = await fetch(`${API_BASE_URL}/price/${symbol.toUpperCase()}`, {
+    const response = await fetch(`${apiBaseUrl()}/price/${key}`, {
       signal: AbortSignal.timeout(5000), // 5 second timeout
     });
-    if (!response.ok) {
-      console.warn(`API returned ${response.status} for ${symbol}, using fallback`);
-      return getFallbackData()[symbol.toUpperCase()] || null;
+    if (response.ok) {
+      const price: PriceData = await response.json();
+      return result('prices', price, priceSource([price]));
     }
-    return await response.json();
+    console.warn(`API returned ${response.status} for ${symbol}, using fallback`);
   } catch (error) {
     console.warn(`Error fetching price for ${symbol}, using fallback:`, error);
-    return getFallbackData()[symbol.toUpperCase()] || null;
   }
+  const fallback = getFallbackData()[key];
+  return fallback ? result('prices', fallback, 'synthetic') : null;
 }
 
 /**
  * Fetch all cached prices
  */
-export async function fetchAllPrices(): Promise<Record<string, PriceData> | null> {
+export async function fetchAllPrices(): Promise<ApiResult<Record<string, PriceData>>> {
   try {
-    const url = `${API_BASE_URL}/prices`;
+    const url = `${apiBaseUrl()}/prices`;
     const response = await fetch(url);
     if (!response.ok) {
       console.warn('[API] Response not OK:', response.status);
-      return getFallbackData();
+      return result('prices', getFallbackData(), 'synthetic');
     }
     const data = await response.json();
-    const prices = data.prices;
+    const prices: Record<string, PriceData> = data.prices;
     Object.keys(prices).forEach(symbol => {
       prices[symbol].latency_us = data.latency_us;
     });
-    return prices;
+    return result('prices', prices, priceSource(Object.values(prices)));
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
-    console.error('[API] Fetch failed:', errorMsg, 'URL:', API_BASE_URL);
-    return getFallbackData();
+    console.error('[API] Fetch failed:', errorMsg, 'URL:', apiBaseUrl());
+    return result('prices', getFallbackData(), 'synthetic');
   }
 }
 
 /**
- * Fetch cache statistics
+ * Fetch the order book for a symbol
+ * Returns null when the backend is unreachable or its provider has no depth
  */
-export async function fetchStats(): Promise<CacheStats | null> {
+export async function fetchOrderBook(symbol: string): Promise<OrderBook | null> {
   try {
-    const response = await fetch(`${API_BASE_URL}/stats`, {
-      signal: AbortSignal.timeout(5000), // 5 second timeout
+    const response = await fetch(`${apiBaseUrl()}/book/${encodeURIComponent(symbol)}`, {
+      signal: AbortSignal.timeout(5000),
+    });
+    if (!response.ok) return null;
+    return await response.json();
+  } catch (error) {
+    console.warn(`Error fetching order book for ${symbol}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Fetch the server-managed symbol watchlist
+ * Falls back to the last known list when the API is unavailable
+ */
+export async function fetchSymbols(): Promise<string[]> {
+  try {
+    const response = await fetch(`${apiBaseUrl()}/symbols`, {
+      signal: AbortSignal.timeout(5000),
     });
     if (!response.ok) {
-      console.warn("Failed to fetch stats, using fallback");
-      return {
-        cache_hits: Math.floor(Math.random() * 10000),
-        cache_misses: Math.floor(Math.random() * 100),
-        total_requests: Math.floor(Math.random() * 10100),
-        hit_rate_percent: 99.5 + Math.random() * 0.5,
-        avg_latency_us: 0.39 + Math.random() * 0.2,
-      };
+      console.warn("Failed to fetch symbols, using last known list");
+      return knownSymbols;
     }
     const data = await response.json();
-    return data.cache_stats;
+    knownSymbols = data.symbols;
+    return knownSymbols;
+  } catch (error) {
+    console.warn("Error fetching symbols, using last known list:", error);
+    return knownSymbols;
+  }
+}
+
+/**
+ * Add a symbol to the watchlist, returning the updated list
+ * Throws with the server's `detail` message when the symbol is rejected
+ */
+export async function addSymbol(symbol: string): Promise<string[]> {
+  const response = await fetch(`${apiBaseUrl()}/symbols`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ symbol }),
+    signal: AbortSignal.timeout(5000),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.detail || `Failed to add ${symbol}`);
+  }
+  knownSymbols = data.symbols;
+  return knownSymbols;
+}
+
+/**
+ * Remove a symbol from the watchlist, returning the updated list
+ */
+export async function removeSymbol(symbol: string): Promise<string[]> {
+  const response = await fetch(`${apiBaseUrl()}/symbols/${encodeURIComponent(symbol)}`, {
+    method: "DELETE",
+    signal: AbortSignal.timeout(5000),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.detail || `Failed to remove ${symbol}`);
+  }
+  knownSymbols = data.symbols;
+  return knownSymbols;
+}
+
+/**
+ * Fetch OHLCV candles for a symbol, oldest first
+ * `from`/`to` are epoch seconds; returns an empty list when history is unavailable
+ */
+export async function fetchHistory(
+  symbol: string,
+  interval: CandleInterval,
+  from?: number,
+  to?: number
+): Promise<Candle[]> {
+  const params = new URLSearchParams({ interval });
+  if (from !== undefined) params.set("from", String(from));
+  if (to !== undefined) params.set("to", String(to));
+  try {
+    const response = await fetch(`${apiBaseUrl()}/history/${encodeURIComponent(symbol)}?${params}`, {
+      signal: AbortSignal.timeout(5000),
+    });
+    if (!response.ok) return [];
+    const data = await response.json();
+    return data.candles;
+  } catch (error) {
+    console.warn(`Error fetching history for ${symbol}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Fetch cache counters, latency and upstream errors for one symbol
+ * Returns null when the symbol isn't tracked or the API is unavailable
+ */
+export async function fetchSymbolStats(symbol: string): Promise<SymbolStats | null> {
+  try {
+    const response = await fetch(`${apiBaseUrl()}/symbols/${encodeURIComponent(symbol)}/stats`, {
+      signal: AbortSignal.timeout(5000),
+    });
+    if (!response.ok) return null;
+    return await response.json();
+  } catch (error) {
+    console.warn(`Error fetching stats for ${symbol}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Generate fallback cache statistics
+ * Percentiles are left at zero since there are no measurements to report
+ */
+function generateFallbackStats(): CacheStats {
+  return {
+    cache_hits: Math.floor(Math.random() * 10000),
+    cache_misses: Math.floor(Math.random() * 100),
+    stale_hits: 0,
+    total_requests: Math.floor(Math.random() * 10100),
+    hit_rate_percent: 99.5 + Math.random() * 0.5,
+    avg_latency_us: 0.39 + Math.random() * 0.2,
+    p50_latency_us: 0,
+    p90_latency_us: 0,
+    p95_latency_us: 0,
+    p99_latency_us: 0,
+    p999_latency_us: 0,
+    max_latency_us: 0,
+    failed_refreshes: 0,
+    evictions: 0,
+    coalesced_requests: 0,
+    upstream_calls: 0,
+    avg_upstream_latency_us: 0,
+  };
+}
+
+/**
+ * Fetch the full `/stats` payload
+ * The synthetic fallback has no histogram and zeroed percentiles
+ */
+export async function fetchStatsResponse(): Promise<ApiResult<StatsResponse>> {
+  try {
+    const response = await fetch(`${apiBaseUrl()}/stats`, {
+      signal: AbortSignal.timeout(5000), // 5 second timeout
+    });
+    if (response.ok) {
+      return result('stats', await response.json(), 'live');
+    }
+    console.warn("Failed to fetch stats, using fallback");
   } catch (error) {
     console.warn("Error fetching stats, using fallback:", error);
-    return {
-      cache_hits: Math.floor(Math.random() * 10000),
-      cache_misses: Math.floor(Math.random() * 100),
-      total_requests: Math.floor(Math.random() * 10100),
-      hit_rate_percent: 99.5 + Math.random() * 0.5,
-      avg_latency_us: 0.39 + Math.random() * 0.2,
-    };
   }
+  const fallback: StatsResponse = {
+    cache_stats: generateFallbackStats(),
+    latency_histogram: [],
+    cache_size: knownSymbols.length,
+    eviction: {
+      policy: 'lru',
+      max_entries: null,
+      max_bytes: null,
+      entries: knownSymbols.length,
+      bytes: 0,
+      evictions: 0,
+      evictions_by_policy: { lru: 0, lfu: 0, ttl: 0 },
+      policy_since: Date.now() / 1000,
+      policy_requests: 0,
+      policy_hit_rate_percent: 0,
+    },
+    symbols: knownSymbols,
+    timestamp: Date.now() / 1000,
+  };
+  return result('stats', fallback, 'synthetic');
+}
+
+/**
+ * Fetch cache health
+ * Reports a degraded status with zeroed readings when the API is unavailable
+ */
+export async function fetchHealth(): Promise<ApiResult<HealthStatus>> {
+  try {
+    const response = await fetch(`${apiBaseUrl()}/health`, {
+      signal: AbortSignal.timeout(5000),
+    });
+    if (response.ok) {
+      return result('health', await response.json(), 'live');
+    }
+  } catch (error) {
+    console.warn("Error fetching health, using fallback:", error);
+  }
+  const fallback: HealthStatus = {
+    status: "degraded",
+    timestamp: Date.now() / 1000,
+    cache_age_seconds: 0,
+    cache_size: 0,
+    hit_rate: 0,
+    upstream_errors: 0,
+  };
+  return result('health', fallback, 'synthetic');
+}
+
+/**
+ * Fetch circuit breaker metrics
+ * Falls back to a closed breaker with no calls when the API is unavailable
+ */
+export async function fetchCircuitBreakerStatus(): Promise<ApiResult<CircuitBreakerMetrics>> {
+  try {
+    const response = await fetch(`${apiBaseUrl()}/circuit-breaker/status`, {
+      signal: AbortSignal.timeout(5000),
+    });
+    if (response.ok) {
+      return result('circuit_breaker', await response.json(), 'live');
+    }
+  } catch (error) {
+    console.warn("Error fetching circuit breaker status, using fallback:", error);
+  }
+  const fallback: CircuitBreakerMetrics = {
+    name: "upstream",
+    state: "closed",
+    total_calls: 0,
+    successful_calls: 0,
+    failed_calls: 0,
+    rejected_calls: 0,
+    success_rate_percent: 100,
+    state_changes: 0,
+    last_failure_time: null,
+    last_state_change_time: Date.now() / 1000,
+    config: {
+      failure_threshold: 5,
+      success_threshold: 2,
+      timeout_seconds: 60,
+      half_open_max_calls: 3,
+    },
+  };
+  return result('circuit_breaker', fallback, 'synthetic');
 }
 
 /**
@@ -172,7 +465,7 @@ export async function fetchStats(): Promise<CacheStats | null> {
  */
 export async function healthCheck(): Promise<boolean> {
   try {
-    const response = await fetch(`${API_BASE_URL}/health`, {
+    const response = await fetch(`${apiBaseUrl()}/health`, {
       signal: AbortSignal.timeout(5000),
     });
     return response.ok;
@@ -183,74 +476,243 @@ export async function healthCheck(): Promise<boolean> {
 }
 
 /**
- * Benchmark: Measure cached latency
+ * Force the circuit breaker closed
  */
-export async function benchmarkCachedLatency(
-  symbol: string,
-  iterations: number = 100
-): Promise<number[]> {
-  const latencies: number[] = [];
-
-  for (let i = 0; i < iterations; i++) {
-    const start = performance.now();
-    await fetchPrice(symbol);
-    const elapsed = performance.now() - start;
-    latencies.push(elapsed);
+export async function resetCircuitBreaker(): Promise<void> {
+  const response = await fetch(`${apiBaseUrl()}/circuit-breaker/reset`, {
+    method: "POST",
+    signal: AbortSignal.timeout(5000),
+  });
+  if (!response.ok) {
+    throw new Error("Failed to reset circuit breaker");
   }
+}
 
-  return latencies;
+/**
+ * Start a server-side benchmark run
+ * Throws with the server's `detail` message when the configuration is rejected
+ */
+export async function startBenchmarkRun(config: Partial<BenchmarkConfig>): Promise<BenchmarkRun> {
+  const response = await fetch(`${apiBaseUrl()}/benchmark/runs`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(config),
+    signal: AbortSignal.timeout(5000),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.detail || "Failed to start benchmark");
+  }
+  return data;
 }
 
 /**
- * Benchmark: Measure uncached latency
+ * List saved and in-progress benchmark runs, newest first, without raw samples
  */
-export async function benchmarkUncachedLatency(
-  symbol: string,
-  iterations: number = 5
-): Promise<number[]> {
-  const latencies: number[] = [];
-
-  for (let i = 0; i < iterations; i++) {
-    const start = performance.now();
-    try {
-      await fetch(`${API_BASE_URL}/price/${symbol.toUpperCase()}`, {
-        signal: AbortSignal.timeout(5000),
-      });
-    } catch (error) {
-      console.warn("Uncached request failed:", error);
-    }
-    const elapsed = performance.now() - start;
-    latencies.push(elapsed);
+export async function fetchBenchmarkRuns(): Promise<BenchmarkRun[]> {
+  const response = await fetch(`${apiBaseUrl()}/benchmark/runs`, {
+    signal: AbortSignal.timeout(5000),
+  });
+  if (!response.ok) {
+    throw new Error("Failed to fetch benchmark history");
+  }
+  const data = await response.json();
+  return data.runs;
+}
 
-    // Rate limiting
-    if (i < iterations - 1) {
-      await new Promise((resolve) => setTimeout(resolve, 500));
-    }
+/**
+ * Fetch a benchmark run, including its raw samples once completed
+ */
+export async function fetchBenchmarkRun(id: string): Promise<BenchmarkRun> {
+  const response = await fetch(`${apiBaseUrl()}/benchmark/runs/${encodeURIComponent(id)}`, {
+    signal: AbortSignal.timeout(5000),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.detail || `Benchmark run ${id} not found`);
   }
+  return data;
+}
 
-  return latencies;
+/**
+ * Follow a benchmark run's progress events until it finishes
+ * Returns a function that stops listening
+ */
+export function watchBenchmarkRun(
+  id: string,
+  onProgress: (progress: BenchmarkProgress) => void,
+  onDone: (run: BenchmarkRun) => void,
+  onError: (error: Error) => void
+): () => void {
+  const source = new EventSource(`${apiBaseUrl()}/benchmark/runs/${encodeURIComponent(id)}/events`);
+  source.addEventListener("progress", (event) => {
+    const progress = JSON.parse((event as MessageEvent).data);
+    if (progress) onProgress(progress);
+  });
+  source.addEventListener("done", (event) => {
+    source.close();
+    onDone(JSON.parse((event as MessageEvent).data));
+  });
+  source.onerror = () => {
+    source.close();
+    onError(new Error("Lost connection to benchmark progress stream"));
+  };
+  return () => source.close();
 }
 
 /**
- * Calculate statistics from latency array
+ * List price alert rules and the webhook they are delivered to
  */
-export function calculateStats(latencies: number[]): {
-  min: number;
-  max: number;
-  mean: number;
-  median: number;
-  p95: number;
-  p99: number;
-} {
-  const sorted = [...latencies].sort((a, b) => a - b);
-  const len = sorted.length;
+export async function fetchAlertRules(): Promise<AlertRulesResponse> {
+  const response = await fetch(`${apiBaseUrl()}/alerts`, {
+    signal: AbortSignal.timeout(5000),
+  });
+  if (!response.ok) {
+    throw new Error("Failed to fetch alert rules");
+  }
+  return response.json();
+}
 
-  return {
-    min: sorted[0],
-    max: sorted[len - 1],
-    mean: sorted.reduce((a, b) => a + b, 0) / len,
-    median: sorted[Math.floor(len / 2)],
-    p95: sorted[Math.floor(len * 0.95)],
-    p99: sorted[Math.floor(len * 0.99)],
-  };
+/**
+ * Create a price alert rule, or replace one when `id` is given
+ * Throws with the server's `detail` message when the rule is rejected
+ */
+export async function saveAlertRule(input: PriceAlertRuleInput, id?: string): Promise<PriceAlertRule> {
+  const response = await fetch(id ? `${apiBaseUrl()}/alerts/${encodeURIComponent(id)}` : `${apiBaseUrl()}/alerts`, {
+    method: id ? "PUT" : "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+    signal: AbortSignal.timeout(5000),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.detail || "Failed to save alert");
+  }
+  return data;
+}
+
+export async function deleteAlertRule(id: string): Promise<void> {
+  const response = await fetch(`${apiBaseUrl()}/alerts/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+    signal: AbortSignal.timeout(5000),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.detail || "Failed to delete alert");
+  }
+}
+
+/**
+ * Set the webhook URL fired alerts are POSTed to; null disables it
+ */
+export async function setAlertWebhook(url: string | null): Promise<string | null> {
+  const response = await fetch(`${apiBaseUrl()}/alerts/webhook`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ url }),
+    signal: AbortSignal.timeout(5000),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.detail || "Failed to save webhook");
+  }
+  return data.webhook_url;
+}
+
+/**
+ * Send a sample alert to the configured webhook
+ */
+export async function testAlertWebhook(): Promise<void> {
+  const response = await fetch(`${apiBaseUrl()}/alerts/webhook/test`, {
+    method: "POST",
+    signal: AbortSignal.timeout(10000),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.detail || "Webhook test failed");
+  }
+}
+
+/**
+ * Switch the cache's eviction policy or capacity limits
+ */
+export async function setEvictionConfig(input: EvictionConfigInput): Promise<EvictionStatus> {
+  const response = await fetch(`${apiBaseUrl()}/admin/eviction`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+    signal: AbortSignal.timeout(5000),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.detail || "Failed to update eviction settings");
+  }
+  return response.json();
+}
+
+/**
+ * Fetch cache stats broken down by symbol and by the route that read them
+ */
+export async function fetchStatsBreakdown(): Promise<StatsBreakdownResponse> {
+  const response = await fetch(`${apiBaseUrl()}/stats/breakdown`, {
+    signal: AbortSignal.timeout(5000),
+  });
+  if (!response.ok) {
+    throw new Error("Failed to fetch stats breakdown");
+  }
+  return response.json();
+}
+
+/**
+ * The background refresh scheduler's budget and per-symbol intervals
+ */
+export async function fetchSchedulerStatus(): Promise<SchedulerStatus> {
+  const response = await fetch(`${apiBaseUrl()}/scheduler`, {
+    signal: AbortSignal.timeout(5000),
+  });
+  if (!response.ok) {
+    throw new Error("Failed to fetch refresh scheduler status");
+  }
+  return response.json();
+}
+
+/**
+ * Operational SLO rules with their current readings, plus alert history
+ */
+export async function fetchSloStatus(): Promise<SloStatusResponse> {
+  const response = await fetch(`${apiBaseUrl()}/slo`, {
+    signal: AbortSignal.timeout(5000),
+  });
+  if (!response.ok) {
+    throw new Error("Failed to fetch SLO status");
+  }
+  return response.json();
+}
+
+export async function acknowledgeSloAlert(id: string): Promise<SloAlert> {
+  const response = await fetch(`${apiBaseUrl()}/slo/alerts/${encodeURIComponent(id)}/ack`, {
+    method: "POST",
+    signal: AbortSignal.timeout(5000),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.detail || "Failed to acknowledge alert");
+  }
+  return data;
+}
+
+/**
+ * Silence an SLO rule for `seconds`, or lift the silence when `seconds` is 0
+ */
+export async function silenceSloRule(kind: string, seconds: number): Promise<void> {
+  const response = await fetch(`${apiBaseUrl()}/slo/rules/${encodeURIComponent(kind)}/silence`, {
+    method: seconds > 0 ? "POST" : "DELETE",
+    headers: { "Content-Type": "application/json" },
+    body: seconds > 0 ? JSON.stringify({ seconds }) : undefined,
+    signal: AbortSignal.timeout(5000),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.detail || "Failed to silence rule");
+  }
 }
@@ -0,0 +1,97 @@
+/**
+ * Runtime backend configuration
+ * Named backends come from build-time env vars and an optional `/config.json`
+ * served next to the app; the one picked in the header is kept in localStorage
+ */
+
+export interface BackendOption {
+  id: string;
+  label: string;
+  /** Base URL of the price cache API, either a path on this origin or an absolute URL */
+  apiBaseUrl: string;
+}
+
+/** Shape of `/config.json`; its backends replace env ones with the same id */
+interface RuntimeConfigFile {
+  defaultBackend?: string;
+  backends?: BackendOption[];
+}
+
+const STORAGE_KEY = "backend";
+
+function envBackends(): BackendOption[] {
+  const env = import.meta.env;
+  const backends: BackendOption[] = [
+    // In development Vite proxies /api to `pnpm dev:server` on localhost:8000
+    { id: "local", label: "Local", apiBaseUrl: env.VITE_API_BASE_URL || "/api" },
+  ];
+  if (env.VITE_STAGING_API_URL) {
+    backends.push({ id: "staging", label: "Staging", apiBaseUrl: env.VITE_STAGING_API_URL });
+  }
+  if (env.VITE_PROD_API_URL) {
+    backends.push({ id: "prod", label: "Production", apiBaseUrl: env.VITE_PROD_API_URL });
+  }
+  return backends;
+}
+
+let backends = envBackends();
+let active = backends[0];
+
+/**
+ * Read `/config.json` and the stored selection. Call once before rendering;
+ * a missing or invalid file leaves the env backends in place.
+ */
+export async function loadRuntimeConfig(): Promise<void> {
+  let defaultBackend: string | undefined = import.meta.env.VITE_DEFAULT_BACKEND;
+  try {
+    const response = await fetch("/config.json", {
+      cache: "no-store",
+      signal: AbortSignal.timeout(3000),
+    });
+    if (response.ok) {
+      const file: RuntimeConfigFile = await response.json();
+      (file.backends ?? []).forEach((backend) => {
+        if (!backend?.id || !backend.apiBaseUrl) return;
+        const option = { id: backend.id, label: backend.label || backend.id, apiBaseUrl: backend.apiBaseUrl };
+        const index = backends.findIndex((b) => b.id === option.id);
+        if (index >= 0) backends[index] = option;
+        else backends.push(option);
+      });
+      defaultBackend = file.defaultBackend ?? defaultBackend;
+    }
+  } catch (error) {
+    // No config.json (or the SPA fallback answered with HTML): env backends only
+    console.debug("No runtime config.json, using build-time backends:", error);
+  }
+
+  const stored = localStorage.getItem(STORAGE_KEY);
+  active =
+    backends.find((b) => b.id === stored) ??
+    backends.find((b) => b.id === defaultBackend) ??
+    backends[0];
+}
+
+export function getBackends(): BackendOption[] {
+  return backends;
+}
+
+export function getActiveBackend(): BackendOption {
+  return active;
+}
+
+/**
+ * Base URL every API request and stream is built on, without a trailing slash
+ */
+export function apiBaseUrl(): string {
+  return active.apiBaseUrl.replace(/\/+$/, "");
+}
+
+/**
+ * Remember a backend and reload, so every store and socket starts over
+ * against it
+ */
+export function selectBackend(id: string) {
+  if (id === active.id || !backends.some((b) => b.id === id)) return;
+  localStorage.setItem(STORAGE_KEY, id);
+  window.location.reload();
+}
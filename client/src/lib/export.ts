@@ -21,9 +21,14 @@ export interface MetricsSnapshot {
   stale_hits: number;
   hit_rate_percent: number;
   avg_latency_us: number;
+  p50_latency_us: number;
+  p90_latency_us: number;
   p95_latency_us: number;
   p99_latency_us: number;
+  p999_latency_us: number;
+  max_latency_us: number;
   refresh_errors: number;
+  evictions: number;
   cache_size: number;
 }
 
@@ -80,9 +85,14 @@ export function metricsToCSV(metrics: MetricsSnapshot[]): string {
     "Stale Hits",
     "Hit Rate (%)",
     "Avg Latency (µs)",
+    "P50 Latency (µs)",
+    "P90 Latency (µs)",
     "P95 Latency (µs)",
     "P99 Latency (µs)",
+    "P99.9 Latency (µs)",
+    "Max Latency (µs)",
     "Refresh Errors",
+    "Evictions",
     "Cache Size",
   ];
 
@@ -93,9 +103,14 @@ export function metricsToCSV(metrics: MetricsSnapshot[]): string {
     metric.stale_hits,
     metric.hit_rate_percent.toFixed(2),
     metric.avg_latency_us.toFixed(3),
+    metric.p50_latency_us.toFixed(3),
+    metric.p90_latency_us.toFixed(3),
     metric.p95_latency_us.toFixed(3),
     metric.p99_latency_us.toFixed(3),
+    metric.p999_latency_us.toFixed(3),
+    metric.max_latency_us.toFixed(3),
     metric.refresh_errors,
+    metric.evictions,
     metric.cache_size,
   ]);
 
@@ -0,0 +1,348 @@
+/**
+ * Shared live data store
+ * One WebSocket per stream feeds every component reading prices or stats,
+ * with a single REST poll standing in while the socket is down. The
+ * watchlist is shared the same way, over one poll.
+ */
+
+import type { PriceData, StatsResponse, StreamMessage } from "@shared/types";
+import {
+  addSymbol,
+  apiWebSocketUrl,
+  fetchAllPrices,
+  fetchStatsResponse,
+  fetchSymbols,
+  removeSymbol,
+  priceSource,
+  reportDataSource,
+  type ApiResult,
+  type DataResource,
+  type DataSource,
+} from "@/lib/api";
+
+type Listener = () => void;
+
+export interface FeedSnapshot<T> {
+  data: T | null;
+  loading: boolean;
+  error: string | null;
+  /** Where the current value came from, null until the first load */
+  source: DataSource | null;
+  /** Updates are arriving over the WebSocket rather than by polling */
+  streaming: boolean;
+}
+
+interface FeedOptions<T> {
+  /** Stream path under the API, e.g. `/ws/stats` */
+  path: string;
+  resource: DataResource;
+  load: () => Promise<ApiResult<T> | null>;
+  loadError: string;
+  /** Poll interval while the socket is disconnected */
+  pollIntervalMs: number;
+  /** Poll interval while streaming, to pick up changes the stream doesn't carry */
+  resyncIntervalMs?: number;
+  /** Fold a stream frame into the current value; undefined leaves it unchanged */
+  reduce: (current: T | null, message: StreamMessage) => T | null | undefined;
+  /** Source of a value built from stream frames */
+  classify: (data: T) => DataSource;
+  /** Called with the socket after every REST load while it is open */
+  onLoad?: (data: T, ws: WebSocket) => void;
+}
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * A value kept current by a WebSocket stream, falling back to polling.
+ * The socket opens with the first subscriber and closes with the last, and
+ * overlapping loads share one request.
+ */
+class LiveFeed<T> {
+  private snapshot: FeedSnapshot<T> = {
+    data: null,
+    loading: true,
+    error: null,
+    source: null,
+    streaming: false,
+  };
+  private readonly listeners = new Set<Listener>();
+  private ws: WebSocket | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private inflight: Promise<void> | null = null;
+  /** Stream frames waiting to be folded in on the next flush */
+  private queued: StreamMessage[] = [];
+  private cancelFlush: (() => void) | null = null;
+
+  constructor(private readonly options: FeedOptions<T>) {}
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) this.start();
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.stop();
+    };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  /**
+   * Load the value over REST, joining a load already in flight
+   */
+  refresh(): Promise<void> {
+    if (this.inflight) return this.inflight;
+    this.inflight = this.options
+      .load()
+      .then((result) => {
+        if (result) {
+          const { data, source } = result;
+          this.update({ data, source, loading: false, error: null });
+          if (this.ws?.readyState === WebSocket.OPEN) this.options.onLoad?.(data, this.ws);
+        } else {
+          this.update({ loading: false, error: this.options.loadError });
+        }
+      })
+      .catch((err) => {
+        this.update({ loading: false, error: err instanceof Error ? err.message : "Unknown error" });
+      })
+      .finally(() => {
+        this.inflight = null;
+      });
+    return this.inflight;
+  }
+
+  private update(patch: Partial<FeedSnapshot<T>>) {
+    this.snapshot = { ...this.snapshot, ...patch };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private start() {
+    void this.refresh();
+    this.schedulePoll(this.options.pollIntervalMs);
+    this.connect();
+  }
+
+  private stop() {
+    this.schedulePoll(null);
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    if (this.ws) {
+      // Intentional close: skip the reconnect logic in onclose
+      this.ws.onclose = null;
+      this.ws.close();
+      this.ws = null;
+    }
+    this.reconnectAttempts = 0;
+    this.cancelFlush?.();
+    this.cancelFlush = null;
+    this.queued = [];
+    this.snapshot = { ...this.snapshot, streaming: false };
+  }
+
+  private schedulePoll(intervalMs: number | null) {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = intervalMs ? setInterval(() => void this.refresh(), intervalMs) : null;
+  }
+
+  private connect() {
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(apiWebSocketUrl(this.options.path));
+    } catch (error) {
+      console.debug("Failed to create WebSocket, polling instead:", error);
+      return;
+    }
+
+    ws.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.schedulePoll(this.options.resyncIntervalMs ?? null);
+      this.update({ streaming: true });
+      if (this.snapshot.data && this.snapshot.source !== "synthetic") {
+        this.options.onLoad?.(this.snapshot.data, ws);
+      } else {
+        void this.refresh();
+      }
+    };
+
+    ws.onmessage = (event) => {
+      let message: StreamMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch (e) {
+        console.error("Failed to parse WebSocket message:", e);
+        return;
+      }
+      this.queued.push(message);
+      this.scheduleFlush();
+    };
+
+    ws.onclose = () => {
+      this.ws = null;
+      this.update({ streaming: false });
+      this.schedulePoll(this.options.pollIntervalMs);
+      const delay = Math.min(3000 * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+      this.reconnectAttempts += 1;
+      this.reconnectTimer = setTimeout(() => this.connect(), delay);
+    };
+
+    this.ws = ws;
+  }
+
+  /**
+   * Fold queued frames in once per animation frame, so a server push that
+   * sends one frame per symbol reaches subscribers as a single update.
+   * Hidden tabs don't run animation frames, so they flush on a timer instead.
+   */
+  private scheduleFlush() {
+    if (this.cancelFlush) return;
+    const flush = () => {
+      this.cancelFlush = null;
+      this.flush();
+    };
+    if (document.hidden) {
+      const timer = setTimeout(flush, 0);
+      this.cancelFlush = () => clearTimeout(timer);
+    } else {
+      const frame = requestAnimationFrame(flush);
+      this.cancelFlush = () => cancelAnimationFrame(frame);
+    }
+  }
+
+  private flush() {
+    const messages = this.queued;
+    this.queued = [];
+    // Never merge streamed quotes into generated ones
+    let data = this.snapshot.source === "synthetic" ? null : this.snapshot.data;
+    let changed = false;
+    messages.forEach((message) => {
+      const next = this.options.reduce(data, message);
+      if (next === undefined) return;
+      data = next;
+      changed = true;
+    });
+    if (!changed) return;
+    const source = data ? this.options.classify(data) : null;
+    if (source) reportDataSource(this.options.resource, source);
+    this.update({ data, source, loading: false, error: null });
+  }
+}
+
+/**
+ * Latest quote per tracked symbol. The REST resync replaces the whole map so
+ * symbols removed from the watchlist drop out, and subscribes the socket to
+ * any that were added.
+ */
+export const priceFeed = new LiveFeed<Record<string, PriceData>>({
+  path: "/ws/prices",
+  resource: "prices",
+  load: fetchAllPrices,
+  loadError: "Failed to fetch prices",
+  pollIntervalMs: 2000,
+  resyncIntervalMs: 10000,
+  reduce: (current, message) => {
+    if (message.type === "price") {
+      return { ...current, [message.data.symbol]: message.data };
+    }
+    if (message.type === "error") {
+      console.warn("Price stream:", message.detail);
+    }
+    return undefined;
+  },
+  classify: (prices) => priceSource(Object.values(prices)),
+  onLoad: (prices, ws) => {
+    ws.send(JSON.stringify({ action: "subscribe", symbols: Object.keys(prices) }));
+  },
+});
+
+/**
+ * Cache statistics in the `/stats` shape. Stream frames carry everything but
+ * the symbol list, which is kept from the last REST load.
+ */
+export const statsFeed = new LiveFeed<StatsResponse>({
+  path: "/ws/stats",
+  resource: "stats",
+  load: fetchStatsResponse,
+  loadError: "Failed to fetch stats",
+  pollIntervalMs: 3000,
+  reduce: (current, message) => {
+    if (message.type !== "stats") return undefined;
+    const { latency_histogram, cache_size, eviction, timestamp } = message.data;
+    return {
+      cache_stats: message.data,
+      latency_histogram,
+      cache_size,
+      eviction,
+      symbols: current?.symbols ?? [],
+      timestamp,
+    };
+  },
+  classify: () => "live",
+});
+
+export interface WatchlistSnapshot {
+  symbols: string[];
+  loading: boolean;
+}
+
+/**
+ * The server-managed symbol watchlist, polled once for every reader. Adding
+ * or removing a symbol updates every reader straight away and resyncs the
+ * price feed so the change shows up there too.
+ */
+class Watchlist {
+  private snapshot: WatchlistSnapshot = { symbols: [], loading: true };
+  private readonly listeners = new Set<Listener>();
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private inflight: Promise<void> | null = null;
+
+  constructor(private readonly pollIntervalMs: number) {}
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      void this.refresh();
+      this.pollTimer = setInterval(() => void this.refresh(), this.pollIntervalMs);
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.pollTimer) {
+        clearInterval(this.pollTimer);
+        this.pollTimer = null;
+      }
+    };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  /**
+   * Load the watchlist, joining a load already in flight
+   */
+  refresh = (): Promise<void> => {
+    if (this.inflight) return this.inflight;
+    this.inflight = fetchSymbols()
+      .then((symbols) => this.set(symbols))
+      .finally(() => {
+        this.inflight = null;
+      });
+    return this.inflight;
+  };
+
+  add = async (symbol: string) => {
+    this.set(await addSymbol(symbol));
+    void priceFeed.refresh();
+  };
+
+  remove = async (symbol: string) => {
+    this.set(await removeSymbol(symbol));
+    void priceFeed.refresh();
+  };
+
+  private set(symbols: string[]) {
+    this.snapshot = { symbols, loading: false };
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const watchlist = new Watchlist(10000);
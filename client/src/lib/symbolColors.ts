@@ -0,0 +1,37 @@
+/**
+ * Chart and ticker colours per symbol
+ * The original five symbols keep their fixed colours; any other symbol gets a
+ * stable colour from the extra palette based on a hash of its name
+ */
+
+const FIXED_COLORS: Record<string, string> = {
+  AAPL: "#00FF88", // Green
+  MSFT: "#00D4FF", // Cyan
+  GOOGL: "#FF6B6B", // Red
+  AMZN: "#FFD93D", // Yellow
+  TSLA: "#C77DFF", // Purple
+};
+
+const EXTRA_PALETTE = [
+  "#FF9F43", // Orange
+  "#54A0FF", // Blue
+  "#FF6B9D", // Pink
+  "#1DD1A1", // Teal
+  "#F368E0", // Magenta
+  "#A3CB38", // Lime
+  "#48DBFB", // Sky
+  "#FECA57", // Amber
+  "#9C88FF", // Lavender
+  "#E17055", // Terracotta
+];
+
+export function symbolColor(symbol: string): string {
+  const fixed = FIXED_COLORS[symbol];
+  if (fixed) return fixed;
+
+  let hash = 0;
+  for (let i = 0; i < symbol.length; i++) {
+    hash = (hash * 31 + symbol.charCodeAt(i)) >>> 0;
+  }
+  return EXTRA_PALETTE[hash % EXTRA_PALETTE.length];
+}
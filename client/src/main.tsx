@@ -1,5 +1,9 @@
 import { createRoot } from "react-dom/client";
 import App from "./App";
+import { loadRuntimeConfig } from "./lib/config";
 import "./index.css";
 
-createRoot(document.getElementById("root")!).render(<App />);
+// Resolve the backend before anything fetches or opens a socket
+loadRuntimeConfig().finally(() => {
+  createRoot(document.getElementById("root")!).render(<App />);
+});
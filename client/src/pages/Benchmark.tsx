@@ -1,12 +1,22 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
 import { Play, Pause, RotateCcw, Download } from "lucide-react";
-import { benchmarkCachedLatency, benchmarkUncachedLatency, calculateStats } from "@/lib/api";
+import type { BenchmarkMode, BenchmarkProgress, BenchmarkRun } from "@shared/types";
+import { fetchBenchmarkRuns, startBenchmarkRun, watchBenchmarkRun } from "@/lib/api";
 import { exportBenchmarkResults, BenchmarkResult as ExportBenchmarkResult } from "@/lib/export";
+import { symbolColor } from "@/lib/symbolColors";
+import BenchmarkComparison from "@/components/BenchmarkComparison";
+import SymbolLink from "@/components/SymbolLink";
 import Ticker from "@/components/Ticker";
+import { useSymbols } from "@/hooks/useSymbols";
 
+// All latencies on this page are in microseconds
 interface BenchmarkResult {
   symbol: string;
   cachedMean: number;
@@ -17,39 +27,105 @@ interface BenchmarkResult {
   iterations: number;
 }
 
-const SYMBOLS = ["AAPL", "MSFT", "GOOGL"];
+interface DistributionBucket {
+  range: string;
+  count: number;
+  percentage: number;
+}
+
+const MODE_LABELS: Record<BenchmarkMode, string> = {
+  in_process: "In-process lookup",
+  http_loopback: "HTTP loopback",
+};
 
 export default function Benchmark() {
+  const { symbols } = useSymbols();
   const [isRunning, setIsRunning] = useState(false);
-  const [results, setResults] = useState<BenchmarkResult[]>([
-    {
-      symbol: "AAPL",
-      cachedMean: 0.34,
-      cachedP95: 0.38,
-      cachedP99: 0.61,
-      uncachedMean: 112.31,
-      speedup: 330785,
-      iterations: 1000,
-    },
-    {
-      symbol: "MSFT",
-      cachedMean: 0.44,
-      cachedP95: 0.45,
-      cachedP99: 0.57,
-      uncachedMean: 110.75,
-      speedup: 252655,
-      iterations: 1000,
-    },
-  ]);
-
-  const [latencyDistribution, setLatencyDistribution] = useState([
-    { range: "0.0-0.5µs", count: 950, percentage: 95 },
-    { range: "0.5-1.0µs", count: 45, percentage: 4.5 },
-    { range: "1.0-5.0µs", count: 4, percentage: 0.4 },
-    { range: "5.0+µs", count: 1, percentage: 0.1 },
-  ]);
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const [latencyDistribution, setLatencyDistribution] = useState<DistributionBucket[]>([]);
+  const [distributionSymbol, setDistributionSymbol] = useState("");
+  const [history, setHistory] = useState<BenchmarkRun[]>([]);
+
+  const [iterations, setIterations] = useState(1000);
+  const [warmup, setWarmup] = useState(100);
+  const [concurrency, setConcurrency] = useState(1);
+  const [mode, setMode] = useState<BenchmarkMode>("in_process");
+  const [excludedSymbols, setExcludedSymbols] = useState<Set<string>>(new Set());
+  const selectedSymbols = symbols.filter((symbol) => !excludedSymbols.has(symbol));
 
   const [progress, setProgress] = useState("");
+  const [runProgress, setRunProgress] = useState<BenchmarkProgress | null>(null);
+  const stopWatchingRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => stopWatchingRef.current?.(), []);
+
+  const loadHistory = async () => {
+    try {
+      const runs = await fetchBenchmarkRuns();
+      setHistory(runs);
+      return runs;
+    } catch (error) {
+      console.warn("Failed to load benchmark history:", error);
+      return [];
+    }
+  };
+
+  const showLatestRun = async () => {
+    const runs = await loadHistory();
+    const latest = runs.find((run) => run.status === "completed");
+    if (latest) {
+      showRun(latest);
+      setProgress(`Showing saved run from ${new Date(latest.created_at * 1000).toLocaleString()}`);
+    }
+  };
+
+  useEffect(() => {
+    showLatestRun();
+  }, []);
+
+  const toggleSymbol = (symbol: string) => {
+    setExcludedSymbols((prev) => {
+      const next = new Set(prev);
+      if (next.has(symbol)) {
+        next.delete(symbol);
+      } else {
+        next.add(symbol);
+      }
+      return next;
+    });
+  };
+
+  const showRun = (run: BenchmarkRun) => {
+    setResults(
+      run.results.map((r) => ({
+        symbol: r.symbol,
+        cachedMean: r.summary.mean,
+        cachedP95: r.summary.p95,
+        cachedP99: r.summary.p99,
+        uncachedMean: r.uncached_summary.mean,
+        speedup: r.speedup,
+        iterations: r.summary.count,
+      }))
+    );
+    // Saved runs keep summaries only, so the distribution needs a fresh run
+    const first = run.results[0];
+    setDistributionSymbol(first?.symbol ?? "");
+    setLatencyDistribution(calculateDistribution(first?.samples_ns.map((ns) => ns / 1000) ?? []));
+  };
+
+  const handleRunComplete = (run: BenchmarkRun) => {
+    setIsRunning(false);
+    setRunProgress(null);
+    loadHistory();
+    if (run.status === "failed") {
+      setProgress(`Error: ${run.error ?? "Benchmark failed"}`);
+      return;
+    }
+
+    showRun(run);
+    const seconds = (run.finished_at ?? 0) - (run.started_at ?? 0);
+    setProgress(`Benchmark complete in ${seconds.toFixed(1)}s (${MODE_LABELS[run.config.mode]})`);
+  };
 
   const handleRunBenchmark = async () => {
     setIsRunning(true);
@@ -57,76 +133,40 @@ export default function Benchmark() {
     setResults([]);
 
     try {
-      const newResults: BenchmarkResult[] = [];
-
-      for (const symbol of SYMBOLS.slice(0, 2)) {
-        setProgress(`Testing ${symbol}...`);
-
-        // Run cached benchmark
-        setProgress(`Testing ${symbol} (cached - 500 iterations)...`);
-        const cachedLatencies = await benchmarkCachedLatency(symbol, 500);
-        const cachedStats = calculateStats(cachedLatencies);
-
-        // Run uncached benchmark
-        setProgress(`Testing ${symbol} (uncached - 3 iterations)...`);
-        const uncachedLatencies = await benchmarkUncachedLatency(symbol, 3);
-        const uncachedStats = calculateStats(uncachedLatencies);
-
-        // Calculate speedup
-        const speedup = (uncachedStats.mean * 1000) / cachedStats.mean;
-
-        newResults.push({
-          symbol,
-          cachedMean: cachedStats.mean,
-          cachedP95: cachedStats.p95,
-          cachedP99: cachedStats.p99,
-          uncachedMean: uncachedStats.mean,
-          speedup,
-          iterations: 500,
-        });
-
-        setProgress(`${symbol} complete!`);
-      }
-
-      setResults(newResults);
-      setProgress("Benchmark complete!");
-
-      // Calculate distribution for first symbol
-      if (newResults.length > 0) {
-        const cachedLatencies = await benchmarkCachedLatency(newResults[0].symbol, 1000);
-        const distribution = calculateDistribution(cachedLatencies);
-        setLatencyDistribution(distribution);
-      }
+      const run = await startBenchmarkRun({
+        iterations,
+        warmup,
+        concurrency,
+        mode,
+        symbols: selectedSymbols,
+      });
+      setProgress(`Run ${run.id} queued`);
+      stopWatchingRef.current = watchBenchmarkRun(
+        run.id,
+        (update) => {
+          setRunProgress(update);
+          setProgress(`Testing ${update.symbol} (${update.phase} ${update.completed}/${update.total})...`);
+        },
+        handleRunComplete,
+        (error) => {
+          setIsRunning(false);
+          setRunProgress(null);
+          setProgress(`Error: ${error.message}`);
+        }
+      );
     } catch (error) {
+      setIsRunning(false);
       setProgress(`Error: ${error instanceof Error ? error.message : "Unknown error"}`);
       console.error("Benchmark error:", error);
-    } finally {
-      setIsRunning(false);
     }
   };
 
   const handleReset = () => {
-    setResults([
-      {
-        symbol: "AAPL",
-        cachedMean: 0.34,
-        cachedP95: 0.38,
-        cachedP99: 0.61,
-        uncachedMean: 112.31,
-        speedup: 330785,
-        iterations: 1000,
-      },
-      {
-        symbol: "MSFT",
-        cachedMean: 0.44,
-        cachedP95: 0.45,
-        cachedP99: 0.57,
-        uncachedMean: 110.75,
-        speedup: 252655,
-        iterations: 1000,
-      },
-    ]);
+    setResults([]);
+    setLatencyDistribution([]);
+    setDistributionSymbol("");
     setProgress("");
+    showLatestRun();
   };
 
   const handleExport = (format: "csv" | "json") => {
@@ -143,7 +183,8 @@ export default function Benchmark() {
     exportBenchmarkResults(exportData, format);
   };
 
-  const avgSpeedup = Math.floor(results.reduce((sum, r) => sum + r.speedup, 0) / results.length || 0);
+  const avgSpeedup = results.reduce((sum, r) => sum + r.speedup, 0) / results.length || 0;
+  const progressPercent = runProgress && runProgress.total > 0 ? (runProgress.completed / runProgress.total) * 100 : 0;
 
   return (
     <div className="min-h-screen bg-background text-foreground">
@@ -157,7 +198,7 @@ export default function Benchmark() {
           <span className="text-accent">📊</span> Performance Benchmark
         </h1>
         <p className="text-muted-foreground text-sm">
-          Real-time latency testing against live API
+          Server-side latency testing of the price cache
         </p>
       </div>
 
@@ -167,7 +208,7 @@ export default function Benchmark() {
           <div>
             <h2 className="text-lg font-semibold mb-2">Benchmark Controls</h2>
             <p className="text-muted-foreground text-sm">
-              Run 500 iterations of cached reads and compare with uncached API calls
+              Time {iterations} cached reads per symbol after {warmup} warmup reads and compare with direct upstream calls
             </p>
             {progress && (
               <p className="text-accent text-sm mt-2 font-semibold">{progress}</p>
@@ -176,7 +217,7 @@ export default function Benchmark() {
           <div className="flex gap-3 flex-wrap">
             <Button
               onClick={handleRunBenchmark}
-              disabled={isRunning}
+              disabled={isRunning || selectedSymbols.length === 0}
               className="bg-accent text-accent-foreground hover:bg-accent/90"
             >
               {isRunning ? (
@@ -224,23 +265,109 @@ export default function Benchmark() {
             )}
           </div>
         </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
+          <div className="space-y-2">
+            <Label htmlFor="benchmark-iterations">Iterations</Label>
+            <Input
+              id="benchmark-iterations"
+              type="number"
+              min={1}
+              max={100000}
+              value={iterations}
+              onChange={(e) => setIterations(Number(e.target.value))}
+              disabled={isRunning}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="benchmark-warmup">Warmup</Label>
+            <Input
+              id="benchmark-warmup"
+              type="number"
+              min={0}
+              max={100000}
+              value={warmup}
+              onChange={(e) => setWarmup(Number(e.target.value))}
+              disabled={isRunning}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="benchmark-concurrency">Concurrency</Label>
+            <Input
+              id="benchmark-concurrency"
+              type="number"
+              min={1}
+              max={64}
+              value={concurrency}
+              onChange={(e) => setConcurrency(Number(e.target.value))}
+              disabled={isRunning}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Mode</Label>
+            <Select value={mode} onValueChange={(value) => setMode(value as BenchmarkMode)} disabled={isRunning}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(MODE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mt-4">
+          {symbols.map((symbol) => {
+            const isSelected = !excludedSymbols.has(symbol);
+            return (
+              <button
+                key={symbol}
+                onClick={() => toggleSymbol(symbol)}
+                disabled={isRunning}
+                className={`
+                  flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium
+                  transition-all duration-200 border
+                  ${isSelected ? "border-transparent" : "border-border bg-transparent text-muted-foreground opacity-50"}
+                `}
+                style={{
+                  backgroundColor: isSelected ? `${symbolColor(symbol)}20` : undefined,
+                  color: isSelected ? symbolColor(symbol) : undefined,
+                  borderColor: isSelected ? symbolColor(symbol) : undefined,
+                }}
+              >
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: symbolColor(symbol) }} />
+                {symbol}
+              </button>
+            );
+          })}
+        </div>
+
+        {isRunning && runProgress && (
+          <Progress value={progressPercent} className="mt-4" />
+        )}
       </Card>
 
       {/* Results Summary */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
         {results.map((result) => (
           <Card key={result.symbol} className="bg-card border border-border p-6">
-            <h3 className="text-lg font-semibold mb-4 text-accent">{result.symbol}</h3>
+            <h3 className="text-lg font-semibold mb-4">
+              <SymbolLink symbol={result.symbol} plain className="text-accent" />
+            </h3>
 
             <div className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <p className="text-muted-foreground text-xs uppercase tracking-wider mb-1">Cached Mean</p>
-                  <p className="text-2xl font-bold text-accent">{result.cachedMean.toFixed(2)} ms</p>
+                  <p className="text-2xl font-bold text-accent">{formatLatency(result.cachedMean)}</p>
                 </div>
                 <div>
                   <p className="text-muted-foreground text-xs uppercase tracking-wider mb-1">Uncached Mean</p>
-                  <p className="text-2xl font-bold text-destructive">{result.uncachedMean.toFixed(1)} ms</p>
+                  <p className="text-2xl font-bold text-destructive">{formatLatency(result.uncachedMean)}</p>
                 </div>
               </div>
 
@@ -249,18 +376,18 @@ export default function Benchmark() {
                 <div className="space-y-2">
                   <div className="flex justify-between items-center text-sm">
                     <span className="text-muted-foreground">P95</span>
-                    <span className="font-semibold text-secondary">{result.cachedP95.toFixed(2)} ms</span>
+                    <span className="font-semibold text-secondary">{formatLatency(result.cachedP95)}</span>
                   </div>
                   <div className="flex justify-between items-center text-sm">
                     <span className="text-muted-foreground">P99</span>
-                    <span className="font-semibold text-secondary">{result.cachedP99.toFixed(2)} ms</span>
+                    <span className="font-semibold text-secondary">{formatLatency(result.cachedP99)}</span>
                   </div>
                 </div>
               </div>
 
               <div className="border-t border-border pt-4">
                 <p className="text-muted-foreground text-xs uppercase tracking-wider mb-1">Speedup</p>
-                <p className="text-3xl font-bold text-chart-5">{(result.speedup / 1000).toFixed(1)}<span className="text-lg text-muted-foreground">x</span></p>
+                <p className="text-3xl font-bold text-chart-5">{formatSpeedup(result.speedup)}<span className="text-lg text-muted-foreground">x</span></p>
               </div>
             </div>
           </Card>
@@ -276,7 +403,13 @@ export default function Benchmark() {
             <BarChart data={results}>
               <CartesianGrid strokeDasharray="3 3" stroke="#2A3142" />
               <XAxis dataKey="symbol" stroke="#A0A0A0" />
-              <YAxis stroke="#A0A0A0" label={{ value: "Latency (ms)", angle: -90, position: "insideLeft" }} />
+              <YAxis
+                stroke="#A0A0A0"
+                scale="log"
+                domain={["auto", "auto"]}
+                allowDataOverflow
+                label={{ value: "Latency (µs, log)", angle: -90, position: "insideLeft" }}
+              />
               <Tooltip
                 contentStyle={{
                   backgroundColor: "#1A1F2E",
@@ -285,8 +418,8 @@ export default function Benchmark() {
                 }}
               />
               <Legend />
-              <Bar dataKey="cachedMean" fill="#00FF88" name="Cached (ms)" radius={[8, 8, 0, 0]} />
-              <Bar dataKey="uncachedMean" fill="#FF2D55" name="Uncached (ms)" radius={[8, 8, 0, 0]} />
+              <Bar dataKey="cachedMean" fill="#00FF88" name="Cached (µs)" radius={[8, 8, 0, 0]} />
+              <Bar dataKey="uncachedMean" fill="#FF2D55" name="Uncached (µs)" radius={[8, 8, 0, 0]} />
             </BarChart>
           </ResponsiveContainer>
         </Card>
@@ -295,10 +428,10 @@ export default function Benchmark() {
         <Card className="bg-card border border-border p-6">
           <h2 className="text-lg font-semibold mb-4">Speedup Factor</h2>
           <ResponsiveContainer width="100%" height={300}>
-            <BarChart data={results.map(r => ({ symbol: r.symbol, speedup: r.speedup / 1000 }))}>
+            <BarChart data={results}>
               <CartesianGrid strokeDasharray="3 3" stroke="#2A3142" />
               <XAxis dataKey="symbol" stroke="#A0A0A0" />
-              <YAxis stroke="#A0A0A0" label={{ value: "Speedup (1000x)", angle: -90, position: "insideLeft" }} />
+              <YAxis stroke="#A0A0A0" label={{ value: "Speedup (x)", angle: -90, position: "insideLeft" }} />
               <Tooltip
                 contentStyle={{
                   backgroundColor: "#1A1F2E",
@@ -314,7 +447,13 @@ export default function Benchmark() {
 
       {/* Latency Distribution */}
       <Card className="bg-card border border-border p-6 mb-8">
-        <h2 className="text-lg font-semibold mb-4">Latency Distribution (1000 iterations)</h2>
+        <h2 className="text-lg font-semibold mb-4">
+          Latency Distribution
+          {latencyDistribution.length > 0 && ` (${distributionSymbol}, ${latencyDistribution.reduce((sum, d) => sum + d.count, 0)} samples)`}
+        </h2>
+        {latencyDistribution.length === 0 && (
+          <p className="text-muted-foreground text-sm mb-4">Raw samples aren't kept in history; run a benchmark to see the distribution.</p>
+        )}
         <ResponsiveContainer width="100%" height={300}>
           <BarChart data={latencyDistribution}>
             <CartesianGrid strokeDasharray="3 3" stroke="#2A3142" />
@@ -334,20 +473,23 @@ export default function Benchmark() {
           {latencyDistribution.map((dist) => (
             <div key={dist.range} className="bg-background p-3 rounded-lg border border-border">
               <p className="text-muted-foreground text-xs uppercase tracking-wider mb-1">{dist.range}</p>
-              <p className="text-lg font-bold text-accent">{dist.percentage}%</p>
+              <p className="text-lg font-bold text-accent">{dist.percentage.toFixed(1)}%</p>
               <p className="text-xs text-muted-foreground">{dist.count} samples</p>
             </div>
           ))}
         </div>
       </Card>
 
+      {/* Run Comparison */}
+      <BenchmarkComparison runs={history} />
+
       {/* Summary Stats */}
       <Card className="bg-gradient-to-r from-blue-900/20 to-purple-900/20 border border-border p-6">
         <h2 className="text-lg font-semibold mb-4">Summary Statistics</h2>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <div>
             <p className="text-muted-foreground text-sm mb-2">Average Speedup</p>
-            <p className="text-3xl font-bold text-accent">{(avgSpeedup / 1000).toFixed(1)}x</p>
+            <p className="text-3xl font-bold text-accent">{formatSpeedup(avgSpeedup)}x</p>
           </div>
           <div>
             <p className="text-muted-foreground text-sm mb-2">Symbols Tested</p>
@@ -364,17 +506,39 @@ export default function Benchmark() {
   );
 }
 
-function calculateDistribution(latencies: number[]) {
-  const ranges = [
-    { range: "0.0-0.5µs", min: 0, max: 0.5 },
-    { range: "0.5-1.0µs", min: 0.5, max: 1.0 },
-    { range: "1.0-5.0µs", min: 1.0, max: 5.0 },
-    { range: "5.0+µs", min: 5.0, max: Infinity },
-  ];
-
-  return ranges.map((r) => {
-    const count = latencies.filter((l) => l >= r.min && l < r.max).length;
-    const percentage = (count / latencies.length) * 100;
-    return { ...r, count, percentage };
+/**
+ * Format a latency in microseconds with a unit that keeps it readable
+ */
+function formatLatency(us: number): string {
+  if (us >= 1_000_000) return `${(us / 1_000_000).toFixed(2)} s`;
+  if (us >= 1000) return `${(us / 1000).toFixed(2)} ms`;
+  return `${us.toFixed(2)} µs`;
+}
+
+function formatSpeedup(speedup: number): string {
+  return Math.round(speedup).toLocaleString();
+}
+
+const DISTRIBUTION_EDGES_US = [0, 0.5, 1, 5, 10, 50, 100, 500, 1000, 5000, 10000, 50000];
+
+function formatEdge(us: number): string {
+  return us >= 1000 ? `${us / 1000}ms` : `${us}µs`;
+}
+
+/**
+ * Bucket latencies in microseconds, trimming empty buckets at either end
+ */
+function calculateDistribution(latencies: number[]): DistributionBucket[] {
+  const buckets = DISTRIBUTION_EDGES_US.map((min, i) => {
+    const max = DISTRIBUTION_EDGES_US[i + 1] ?? Infinity;
+    const count = latencies.filter((l) => l >= min && l < max).length;
+    const range = max === Infinity ? `${formatEdge(min)}+` : `${formatEdge(min)}-${formatEdge(max)}`;
+    return { range, count, percentage: latencies.length > 0 ? (count / latencies.length) * 100 : 0 };
   });
+
+  const first = buckets.findIndex((b) => b.count > 0);
+  if (first === -1) return [];
+  let last = buckets.length - 1;
+  while (buckets[last].count === 0) last--;
+  return buckets.slice(first, last + 1);
 }
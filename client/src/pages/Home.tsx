@@ -1,25 +1,35 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { LineChart, Line, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar } from "recharts";
 import { Card } from "@/components/ui/card";
-import { Zap, TrendingUp, Activity, Gauge } from "lucide-react";
+import { Zap, TrendingUp, Activity, Gauge, BookOpen } from "lucide-react";
 import { usePrices, useStats } from "@/hooks/usePrice";
 import Ticker from "@/components/Ticker";
 import PriceChart from "@/components/PriceChart";
+import WatchlistEditor from "@/components/WatchlistEditor";
+import PriceAlertsPanel from "@/components/PriceAlertsPanel";
+import SourceBadge from "@/components/SourceBadge";
+import OrderBookDialog from "@/components/OrderBookDialog";
+import SymbolLink from "@/components/SymbolLink";
 import { useApiStatusContext } from "@/contexts/ApiStatusContext";
 
 interface LatencyData {
   time: string;
   cached: number;
-  uncached: number;
+  /** Mean upstream call time in ms, null before the first upstream call */
+  uncached: number | null;
 }
 
 export default function Home() {
-  const { prices, loading: pricesLoading } = usePrices(3000);
-  const { stats, loading: statsLoading } = useStats(3000);
+  const { prices, loading: pricesLoading, source: pricesSource } = usePrices();
+  const { stats, loading: statsLoading, source: statsSource } = useStats();
   const [latencyData, setLatencyData] = useState<LatencyData[]>([]);
   const [isLive, setIsLive] = useState(true);
-  const [apiLatencyUs, setApiLatencyUs] = useState<number>(0.39);
-  const { setIsRealApi } = useApiStatusContext();
+  const [bookSymbol, setBookSymbol] = useState<string | null>(null);
+  const { source, isRealApi } = useApiStatusContext();
+  const lastSampledRef = useRef<string | null>(null);
+  // Read by the sampling effect without adding a point per stats update
+  const statsRef = useRef(stats);
+  statsRef.current = stats;
 
   // Collect latency data from API responses
   useEffect(() => {
@@ -32,65 +42,46 @@ export default function Home() {
     const firstPrice = pricesArray[0];
     if (!firstPrice || typeof firstPrice !== 'object' || !('latency_us' in firstPrice)) return;
 
+    // One point per new quote, not per update of any symbol
+    const sampleKey = `${firstPrice.symbol}@${firstPrice.timestamp}`;
+    if (sampleKey === lastSampledRef.current) return;
+    lastSampledRef.current = sampleKey;
+
     const now = new Date();
     const timeStr = now.toLocaleTimeString();
 
-    setLatencyData((prev) => {
-      const cachedLatency = firstPrice.latency_us;
-      // Simulate uncached latency as ~100-120ms
-      const uncachedLatency = 100 + Math.random() * 20;
-
-      const newData = [...prev.slice(-19), {
-        time: timeStr,
-        cached: parseFloat(cachedLatency.toFixed(2)),
-        uncached: parseFloat(uncachedLatency.toFixed(1)),
-      }];
+    // Uncached is the server's measured upstream call time, not a guess
+    const upstream = statsRef.current;
+    const uncachedLatency =
+      upstream && upstream.upstream_calls > 0 ? upstream.avg_upstream_latency_us / 1000 : null;
 
-      return newData;
-    });
+    setLatencyData((prev) => [...prev.slice(-19), {
+      time: timeStr,
+      cached: parseFloat(firstPrice.latency_us.toFixed(2)),
+      uncached: uncachedLatency !== null ? parseFloat(uncachedLatency.toFixed(3)) : null,
+    }]);
   }, [prices, isLive]);
 
-  // Initialize with sample data
-  useEffect(() => {
-    const sampleData: LatencyData[] = [];
-    for (let i = 0; i < 20; i++) {
-      const date = new Date();
-      date.setSeconds(date.getSeconds() - (20 - i) * 2);
-      sampleData.push({
-        time: date.toLocaleTimeString(),
-        cached: Math.random() * 0.8 + 0.2,
-        uncached: Math.random() * 80 + 100,
-      });
-    }
-    setLatencyData(sampleData);
-  }, []);
+  // Calculate metrics; nothing is shown until it has been measured
+  const avgCachedUs = latencyData.length > 0
+    ? latencyData.reduce((sum, d) => sum + d.cached, 0) / latencyData.length
+    : null;
+  const avgCachedLatency = avgCachedUs !== null ? avgCachedUs.toFixed(2) : "—";
 
-  // Calculate metrics
-  const avgCachedLatency = latencyData.length > 0
-    ? (latencyData.reduce((sum, d) => sum + d.cached, 0) / latencyData.length).toFixed(2)
-    : "0.39";
+  const upstreamMs = stats && stats.upstream_calls > 0 ? stats.avg_upstream_latency_us / 1000 : null;
+  const avgUncachedLatency = upstreamMs !== null ? upstreamMs.toFixed(3) : "—";
 
-  const avgUncachedLatency = latencyData.length > 0
-    ? (latencyData.reduce((sum, d) => sum + d.uncached, 0) / latencyData.length).toFixed(1)
-    : "111";
+  const speedup = upstreamMs !== null && avgCachedUs
+    ? Math.floor((upstreamMs * 1000) / avgCachedUs)
+    : null;
 
-  const speedup = parseFloat(avgUncachedLatency) > 0
-    ? Math.floor((parseFloat(avgUncachedLatency) * 1000) / parseFloat(avgCachedLatency))
-    : 0;
+  // The chart mixes quote latency with upstream timings from the stats feed
+  const latencySource = pricesSource === "synthetic" || statsSource === "synthetic" ? "synthetic" : pricesSource;
 
-  const hitRate = stats?.hit_rate_percent?.toFixed(2) ?? "99.50";
+  const hitRate = stats ? stats.hit_rate_percent.toFixed(2) : "—";
   const totalRequests = stats?.total_requests ?? 0;
   const cacheHits = stats?.cache_hits ?? 0;
   const cacheMisses = stats?.cache_misses ?? 0;
-  
-  // Check if data is from real API by looking at total requests
-  // Real API accumulates requests over time, fallback generates random data
-  const isRealApi = totalRequests > 100;
-  
-  // Update context when API status changes
-  useEffect(() => {
-    setIsRealApi(isRealApi);
-  }, [isRealApi, setIsRealApi]);
 
   return (
     <div className="min-h-screen bg-background text-foreground">
@@ -111,7 +102,7 @@ export default function Home() {
           </div>
           <div className="flex items-center gap-3">
             <div className={`w-3 h-3 rounded-full ${isRealApi ? "bg-accent animate-pulse" : "bg-yellow-500"}`} />
-            <span className="text-sm font-medium">{isRealApi ? "✓ API LIVE" : "FALLBACK"}</span>
+            <span className="text-sm font-medium">{source === "live" ? "✓ API LIVE" : source === "stale" ? "API LIVE • STALE" : source === "synthetic" ? "FALLBACK" : "CHECKING"}</span>
           </div>
         </div>
       </div>
@@ -124,7 +115,10 @@ export default function Home() {
           <div className="relative z-10">
             <div className="flex items-center justify-between mb-4">
               <span className="text-muted-foreground text-xs font-semibold uppercase tracking-wider">Cached Latency</span>
-              <Zap className="w-4 h-4 text-accent" />
+              <div className="flex items-center gap-2">
+                <SourceBadge source={pricesSource} />
+                <Zap className="w-4 h-4 text-accent" />
+              </div>
             </div>
             <div className="text-3xl font-bold text-accent mb-2">
               {pricesLoading ? "..." : avgCachedLatency} <span className="text-lg text-muted-foreground">µs</span>
@@ -139,12 +133,15 @@ export default function Home() {
           <div className="relative z-10">
             <div className="flex items-center justify-between mb-4">
               <span className="text-muted-foreground text-xs font-semibold uppercase tracking-wider">Uncached Latency</span>
-              <Activity className="w-4 h-4 text-destructive" />
+              <div className="flex items-center gap-2">
+                <SourceBadge source={statsSource} />
+                <Activity className="w-4 h-4 text-destructive" />
+              </div>
             </div>
             <div className="text-3xl font-bold text-destructive mb-2">
-              {avgUncachedLatency} <span className="text-lg text-muted-foreground">ms</span>
+              {statsLoading ? "..." : avgUncachedLatency} <span className="text-lg text-muted-foreground">ms</span>
             </div>
-            <p className="text-xs text-muted-foreground">Direct API calls</p>
+            <p className="text-xs text-muted-foreground">Measured upstream calls</p>
           </div>
         </Card>
 
@@ -154,10 +151,13 @@ export default function Home() {
           <div className="relative z-10">
             <div className="flex items-center justify-between mb-4">
               <span className="text-muted-foreground text-xs font-semibold uppercase tracking-wider">Speedup</span>
-              <TrendingUp className="w-4 h-4 text-secondary" />
+              <div className="flex items-center gap-2">
+                <SourceBadge source={latencySource} />
+                <TrendingUp className="w-4 h-4 text-secondary" />
+              </div>
             </div>
             <div className="text-3xl font-bold text-secondary mb-2">
-              {speedup.toLocaleString()}<span className="text-lg text-muted-foreground">x</span>
+              {speedup !== null ? speedup.toLocaleString() : "—"}<span className="text-lg text-muted-foreground">x</span>
             </div>
             <p className="text-xs text-muted-foreground">Faster with cache</p>
           </div>
@@ -169,29 +169,42 @@ export default function Home() {
           <div className="relative z-10">
             <div className="flex items-center justify-between mb-4">
               <span className="text-muted-foreground text-xs font-semibold uppercase tracking-wider">Hit Rate</span>
-              <Gauge className="w-4 h-4 text-chart-5" />
+              <div className="flex items-center gap-2">
+                <SourceBadge source={statsSource} />
+                <Gauge className="w-4 h-4 text-chart-5" />
+              </div>
             </div>
             <div className="text-3xl font-bold text-chart-5 mb-2">
               {statsLoading ? "..." : hitRate}<span className="text-lg text-muted-foreground">%</span>
             </div>
             <p className="text-xs text-muted-foreground">Cache effectiveness</p>
-            {isRealApi && (
-              <p className="text-xs text-accent mt-2 font-semibold">Real API Data</p>
-            )}
           </div>
         </Card>
       </div>
 
       {/* Real-Time Price Chart */}
       <div className="mb-8">
-        <PriceChart prices={prices} maxDataPoints={60} />
+        <PriceChart prices={prices} source={pricesSource} maxDataPoints={60} />
+      </div>
+
+      {/* Symbol Watchlist */}
+      <div className="mb-8">
+        <WatchlistEditor />
+      </div>
+
+      {/* Price Alerts */}
+      <div className="mb-8">
+        <PriceAlertsPanel />
       </div>
 
       {/* Main Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
         {/* Latency Comparison Chart */}
         <Card className="lg:col-span-2 bg-card border border-border p-6">
-          <h2 className="text-lg font-semibold mb-4 text-foreground">Latency Comparison (20s)</h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-foreground">Latency Comparison (20s)</h2>
+            <SourceBadge source={latencySource} />
+          </div>
           <ResponsiveContainer width="100%" height={300}>
             <LineChart data={latencyData} margin={{ top: 5, right: 30, left: 0, bottom: 5 }}>
               <CartesianGrid strokeDasharray="3 3" stroke="#2A3142" />
@@ -221,7 +234,8 @@ export default function Home() {
                 stroke="#FF2D55"
                 dot={false}
                 strokeWidth={2}
-                name="Uncached (ms)"
+                name="Upstream avg (ms)"
+                connectNulls
                 isAnimationActive={false}
               />
             </LineChart>
@@ -289,8 +303,30 @@ export default function Home() {
             ) : prices && typeof prices === 'object' ? (
               Object.entries(prices).slice(0, 4).map(([symbol, data]: [string, any]) => (
                 <div key={symbol} className="flex items-center justify-between pb-3 border-b border-border last:border-b-0">
-                  <span className="font-semibold text-foreground">{symbol}</span>
+                  <div className="flex items-center gap-2">
+                    <SymbolLink symbol={symbol} className="font-semibold" />
+                    <button
+                      type="button"
+                      onClick={() => setBookSymbol(symbol)}
+                      className="text-muted-foreground hover:text-accent transition-colors"
+                      title={`Open the ${symbol} order book`}
+                    >
+                      <BookOpen className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
                   <div className="flex items-center gap-3">
+                    {data?.freshness && data.freshness !== "fresh" && (
+                      <span
+                        className={`text-xs px-1.5 py-0.5 rounded ${
+                          data.freshness === "stale"
+                            ? "bg-yellow-900/20 text-yellow-400"
+                            : "bg-red-900/20 text-red-400"
+                        }`}
+                        title={`Quote fetched ${((data.age_ms ?? 0) / 1000).toFixed(1)}s ago`}
+                      >
+                        {data.freshness} • {((data.age_ms ?? 0) / 1000).toFixed(1)}s
+                      </span>
+                    )}
                     <span className="text-accent">${(data?.price ?? 0).toFixed(2)}</span>
                     <span className="text-muted-foreground text-xs">{(data?.latency_us ?? 0).toFixed(2)}µs</span>
                   </div>
@@ -303,6 +339,8 @@ export default function Home() {
         </Card>
       </div>
 
+      <OrderBookDialog symbol={bookSymbol} onClose={() => setBookSymbol(null)} />
+
       {/* Footer */}
       <div className="mt-8 pt-6 border-t border-border text-center text-muted-foreground text-xs">
         <p>Low-Latency Price Cache Dashboard • Real-time data from API</p>
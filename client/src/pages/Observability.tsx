@@ -1,89 +1,57 @@
 import { useEffect, useState } from "react";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
 import { Activity, AlertCircle, CheckCircle, Download } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import CacheBreakdownTable from "@/components/CacheBreakdownTable";
 import MetricsPanel from "@/components/MetricsPanel";
-import { useWebSocket } from "@/hooks/useWebSocket";
+import RefreshSchedulerPanel from "@/components/RefreshSchedulerPanel";
+import SloAlertsPanel from "@/components/SloAlertsPanel";
+import SourceBadge from "@/components/SourceBadge";
+import { useStats } from "@/hooks/usePrice";
 import { exportMetricsHistory, MetricsSnapshot } from "@/lib/export";
-
-interface HealthStatus {
-  status: string;
-  cache_age_seconds?: number;
-  cache_size?: number;
-  hit_rate?: number;
-  upstream_errors?: number;
-}
+import { fetchHealth, type DataSource } from "@/lib/api";
+import type { HealthStatus, HistogramBucket } from "@shared/types";
 
 export default function Observability() {
   const [healthStatus, setHealthStatus] = useState<HealthStatus | null>(null);
-  const [wsConnected, setWsConnected] = useState(false);
-  const [streamStats, setStreamStats] = useState<any>(null);
+  const [healthSource, setHealthSource] = useState<DataSource | null>(null);
   const [metricsHistory, setMetricsHistory] = useState<MetricsSnapshot[]>([]);
+  // Stats from the shared feed the rest of the dashboard reads
+  const { stats: streamStats, details, streaming: wsStatsConnected } = useStats();
 
-  // WebSocket for stats streaming
-  const { isConnected: wsStatsConnected } = useWebSocket({
-    url: "http://localhost:8000/ws/stats",
-    onMessage: (data) => {
-      if (data && data.type === "stats") {
-        setStreamStats(data.data);
-        // Add to history
-        const snapshot: MetricsSnapshot = {
-          timestamp: new Date().toISOString(),
-          cache_hits: data.data.cache_hits || 0,
-          cache_misses: data.data.cache_misses || 0,
-          stale_hits: data.data.stale_hits || 0,
-          hit_rate_percent: data.data.hit_rate_percent || 0,
-          avg_latency_us: data.data.avg_latency_us || 0,
-          p95_latency_us: data.data.p95_latency_us || 0,
-          p99_latency_us: data.data.p99_latency_us || 0,
-          refresh_errors: data.data.refresh_errors || 0,
-          cache_size: data.data.cache_size || 0,
-        };
-        setMetricsHistory((prev) => [...prev.slice(-99), snapshot]); // Keep last 100 samples
-      }
-    },
-    onOpen: () => setWsConnected(true),
-    onClose: () => setWsConnected(false),
-  });
-
-  // Fetch health status with fallback
+  // Add each stats update to the exportable history
   useEffect(() => {
-    const fetchHealth = async () => {
-      try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 5000);
-
-        const response = await fetch("http://localhost:8000/health", {
-          signal: controller.signal,
-        });
-        clearTimeout(timeoutId);
+    if (!streamStats || !details) return;
+    const snapshot: MetricsSnapshot = {
+      timestamp: new Date().toISOString(),
+      cache_hits: streamStats.cache_hits || 0,
+      cache_misses: streamStats.cache_misses || 0,
+      stale_hits: streamStats.stale_hits || 0,
+      hit_rate_percent: streamStats.hit_rate_percent || 0,
+      avg_latency_us: streamStats.avg_latency_us || 0,
+      p50_latency_us: streamStats.p50_latency_us || 0,
+      p90_latency_us: streamStats.p90_latency_us || 0,
+      p95_latency_us: streamStats.p95_latency_us || 0,
+      p99_latency_us: streamStats.p99_latency_us || 0,
+      p999_latency_us: streamStats.p999_latency_us || 0,
+      max_latency_us: streamStats.max_latency_us || 0,
+      refresh_errors: streamStats.failed_refreshes || 0,
+      evictions: streamStats.evictions || 0,
+      cache_size: details.cache_size || 0,
+    };
+    setMetricsHistory((prev) => [...prev.slice(-99), snapshot]); // Keep last 100 samples
+  }, [streamStats, details]);
 
-        if (response.ok) {
-          const data = await response.json();
-          setHealthStatus(data);
-        } else {
-          // Fallback data when API unavailable
-          setHealthStatus({
-            status: "degraded",
-            cache_age_seconds: 0,
-            cache_size: 5,
-            hit_rate: 99.5,
-            upstream_errors: 0,
-          });
-        }
-      } catch (error) {
-        // Fallback data on network error
-        setHealthStatus({
-          status: "degraded",
-          cache_age_seconds: 0,
-          cache_size: 5,
-          hit_rate: 99.5,
-          upstream_errors: 0,
-        });
-      }
+  // Fetch health status, synthetic when the API is unavailable
+  useEffect(() => {
+    const refreshHealth = async () => {
+      const { data, source } = await fetchHealth();
+      setHealthStatus(data);
+      setHealthSource(source);
     };
 
-    fetchHealth();
-    const interval = setInterval(fetchHealth, 5000);
+    refreshHealth();
+    const interval = setInterval(refreshHealth, 5000);
     return () => clearInterval(interval);
   }, []);
 
@@ -96,7 +64,7 @@ export default function Observability() {
 
   const handleExportMetrics = (format: "csv" | "json") => {
     if (metricsHistory.length === 0) {
-      alert("No metrics history to export. Metrics are collected when WebSocket is connected.");
+      alert("No metrics history to export. Metrics are collected as stats updates arrive.");
       return;
     }
     exportMetricsHistory(metricsHistory, format);
@@ -145,7 +113,10 @@ export default function Observability() {
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
           <div className="bg-card border border-border rounded-lg p-6">
             <div className="flex items-center justify-between mb-4">
-              <h3 className="font-semibold">System Health</h3>
+              <h3 className="font-semibold flex items-center gap-2">
+                System Health
+                <SourceBadge source={healthSource} />
+              </h3>
               {getHealthStatus() === "healthy" ? (
                 <CheckCircle className="w-5 h-5 text-green-400" />
               ) : (
@@ -155,7 +126,7 @@ export default function Observability() {
 
             {healthStatus ? (
               <div className="space-y-3 text-sm">
-                {getHealthStatus() === "degraded" && (
+                {healthSource === "synthetic" && (
                   <div className="mb-3 p-2 bg-yellow-900/20 border border-yellow-800/50 rounded text-yellow-400 text-xs">
                     Using fallback data (API unavailable)
                   </div>
@@ -178,6 +149,14 @@ export default function Observability() {
                   <span className="text-muted-foreground">Hit Rate:</span>
                   <span className="font-mono text-green-400">{getHitRate().toFixed(2)}%</span>
                 </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Startup:</span>
+                  <span className="font-mono" title={healthStatus.warm_start ? `${healthStatus.restored_entries ?? 0} quotes restored from snapshot` : undefined}>
+                    {healthStatus.warm_start
+                      ? `WARM (snapshot ${(healthStatus.snapshot_age_seconds ?? 0).toFixed(1)}s old)`
+                      : "COLD"}
+                  </span>
+                </div>
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Upstream Errors:</span>
                   <span className={`font-mono ${getUpstreamErrors() > 0 ? "text-red-400" : "text-green-400"}`}>
@@ -209,7 +188,7 @@ export default function Observability() {
               </div>
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Data Source:</span>
-                <span className="font-mono">/ws/stats</span>
+                <span className="font-mono">{wsStatsConnected ? "/ws/stats" : "GET /stats (polling)"}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Update Interval:</span>
@@ -227,17 +206,26 @@ export default function Observability() {
           </div>
         </div>
 
+        {/* Operational SLO Alerts */}
+        <SloAlertsPanel />
+
         {/* Metrics Panel */}
         <div className="mb-8">
           <h2 className="text-2xl font-bold mb-4">Backend Metrics (Prometheus)</h2>
           <MetricsPanel />
         </div>
 
+        {/* Per-symbol and per-route breakdown */}
+        <CacheBreakdownTable />
+
+        {/* Background refresh schedule */}
+        <RefreshSchedulerPanel />
+
         {/* Real-time Stats from WebSocket */}
         {streamStats && (
           <div className="bg-card border border-border rounded-lg p-6">
-            <h3 className="font-semibold mb-4">Real-time Statistics (WebSocket Stream)</h3>
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <h3 className="font-semibold mb-4">Real-time Statistics</h3>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
               <div>
                 <div className="text-muted-foreground mb-1">Cache Hits</div>
                 <div className="text-2xl font-bold text-green-400">{streamStats.cache_hits || 0}</div>
@@ -250,6 +238,12 @@ export default function Observability() {
                 <div className="text-muted-foreground mb-1">Stale Hits</div>
                 <div className="text-2xl font-bold text-yellow-400">{streamStats.stale_hits || 0}</div>
               </div>
+              <div>
+                <div className="text-muted-foreground mb-1" title="Misses that shared an upstream fetch already in flight">
+                  Coalesced Misses
+                </div>
+                <div className="text-2xl font-bold text-purple-400">{streamStats.coalesced_requests || 0}</div>
+              </div>
               <div>
                 <div className="text-muted-foreground mb-1">Avg Latency</div>
                 <div className="text-2xl font-bold text-blue-400">
@@ -257,6 +251,31 @@ export default function Observability() {
                 </div>
               </div>
             </div>
+
+            {details && details.latency_histogram.length > 0 && (
+              <div className="mt-6">
+                <h4 className="font-semibold mb-3">Measured Lookup Latency Distribution</h4>
+                <ResponsiveContainer width="100%" height={250}>
+                  <BarChart data={details.latency_histogram.map(toHistogramPoint)}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+                    <XAxis dataKey="range" stroke="rgba(255,255,255,0.5)" style={{ fontSize: "10px" }} />
+                    <YAxis stroke="rgba(255,255,255,0.5)" scale="sqrt" />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: "rgba(15, 20, 25, 0.95)",
+                        border: "1px solid rgba(255,255,255,0.1)",
+                      }}
+                    />
+                    <Bar dataKey="count" fill="#60A5FA" name="Reads" />
+                  </BarChart>
+                </ResponsiveContainer>
+                <p className="text-xs text-muted-foreground mt-2">
+                  P50 {streamStats.p50_latency_us.toFixed(3)} µs • P90 {streamStats.p90_latency_us.toFixed(3)} µs •
+                  P99 {streamStats.p99_latency_us.toFixed(3)} µs • P99.9 {streamStats.p999_latency_us.toFixed(3)} µs •
+                  Max {streamStats.max_latency_us.toFixed(3)} µs
+                </p>
+              </div>
+            )}
           </div>
         )}
 
@@ -274,7 +293,7 @@ export default function Observability() {
               <strong className="text-foreground">Network Latency:</strong> Calculated as end-to-end minus in-process latency.
             </p>
             <p>
-              <strong className="text-foreground">Percentiles:</strong> P95 and P99 latencies computed from backend measurements, not frontend timing loops.
+              <strong className="text-foreground">Percentiles:</strong> P50 through P99.9 read from a log-linear histogram of every cache lookup recorded on the server, not frontend timing loops.
             </p>
           </div>
         </div>
@@ -282,3 +301,15 @@ export default function Observability() {
     </div>
   );
 }
+
+function formatMicros(ns: number): string {
+  const us = ns / 1000;
+  return us < 10 ? us.toFixed(2) : us.toFixed(0);
+}
+
+function toHistogramPoint(bucket: HistogramBucket) {
+  return {
+    range: `${formatMicros(bucket.lower_ns)}-${formatMicros(bucket.upper_ns)}µs`,
+    count: bucket.count,
+  };
+}
@@ -0,0 +1,255 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "wouter";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { ArrowLeft, BookOpen, AlertCircle } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import CandleChart, { type CandleChartMode } from "@/components/CandleChart";
+import OrderBookDialog from "@/components/OrderBookDialog";
+import SourceBadge from "@/components/SourceBadge";
+import { usePrice } from "@/hooks/usePrice";
+import { fetchHistory, fetchSymbolStats } from "@/lib/api";
+import { symbolColor } from "@/lib/symbolColors";
+import type { SymbolStats } from "@shared/types";
+
+interface SpreadPoint {
+  label: string;
+  spreadBps: number;
+}
+
+const formatTime = (epochSeconds: number) => new Date(epochSeconds * 1000).toLocaleTimeString();
+
+/**
+ * Everything the cache knows about one symbol: the full quote, intraday
+ * chart and spread history, and its own hit/miss counters, lookup latency
+ * and recent upstream errors
+ */
+export default function SymbolDetail() {
+  const params = useParams<{ symbol: string }>();
+  const symbol = decodeURIComponent(params.symbol ?? "").toUpperCase();
+  const { price, loading, source } = usePrice(symbol);
+  const [chartMode, setChartMode] = useState<CandleChartMode>("candlestick");
+  const [stats, setStats] = useState<SymbolStats | null>(null);
+  const [statsLoaded, setStatsLoaded] = useState(false);
+  const [spreadHistory, setSpreadHistory] = useState<SpreadPoint[]>([]);
+  const [bookOpen, setBookOpen] = useState(false);
+
+  // Per-symbol cache stats
+  useEffect(() => {
+    let cancelled = false;
+    const refreshStats = async () => {
+      const data = await fetchSymbolStats(symbol);
+      if (cancelled) return;
+      setStats(data);
+      setStatsLoaded(true);
+    };
+
+    refreshStats();
+    const interval = setInterval(refreshStats, 3000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [symbol]);
+
+  // Spread history from the minute bars' closing bid and ask
+  const minute = price ? Math.floor(Date.parse(price.timestamp) / 60000) : null;
+  useEffect(() => {
+    let cancelled = false;
+    fetchHistory(symbol, "1m").then((candles) => {
+      if (cancelled) return;
+      setSpreadHistory(
+        candles
+          .filter((candle) => candle.bid > 0 && candle.ask > 0)
+          .map((candle) => ({
+            label: new Date(candle.time * 1000).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }),
+            spreadBps: ((candle.ask - candle.bid) / ((candle.ask + candle.bid) / 2)) * 10000,
+          }))
+      );
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol, minute]);
+
+  const spread = price ? price.ask - price.bid : null;
+  const quoteRows: [string, string][] = price
+    ? [
+        ["Bid", `$${price.bid.toFixed(2)}`],
+        ["Ask", `$${price.ask.toFixed(2)}`],
+        ["Spread", `$${spread!.toFixed(2)} (${((spread! / price.price) * 10000).toFixed(1)} bps)`],
+        ["Volume", price.volume.toLocaleString()],
+        ["Quote time", new Date(price.timestamp).toLocaleTimeString()],
+        ["Freshness", `${price.freshness ?? "fresh"} • ${((price.age_ms ?? 0) / 1000).toFixed(1)}s old`],
+        ["Upstream", price.source],
+        ["Lookup latency", `${price.latency_us.toFixed(2)} µs`],
+      ]
+    : [];
+
+  const statRows: [string, string][] = stats
+    ? [
+        ["Requests", stats.total_requests.toLocaleString()],
+        ["Cache hits", stats.cache_hits.toLocaleString()],
+        ["Stale hits", stats.stale_hits.toLocaleString()],
+        ["Cache misses", stats.cache_misses.toLocaleString()],
+        ["Hit rate", `${stats.hit_rate_percent.toFixed(2)}%`],
+        ["Refresh errors", stats.refresh_errors.toLocaleString()],
+        ["Avg latency", `${stats.avg_latency_us.toFixed(2)} µs`],
+        ["P50 / P95 / P99", `${stats.p50_latency_us.toFixed(2)} / ${stats.p95_latency_us.toFixed(2)} / ${stats.p99_latency_us.toFixed(2)} µs`],
+        ["Max latency", `${stats.max_latency_us.toFixed(2)} µs`],
+        ["Last refresh", stats.last_refresh ? formatTime(stats.last_refresh) : "Never"],
+      ]
+    : [];
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Header */}
+      <div className="border-b border-border p-6">
+        <div className="container mx-auto">
+          <Link href="/" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground mb-3">
+            <ArrowLeft className="w-4 h-4" />
+            Dashboard
+          </Link>
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <div className="flex items-center gap-3">
+                <h1 className="text-3xl font-bold" style={{ color: symbolColor(symbol) }}>
+                  {symbol}
+                </h1>
+                <SourceBadge source={source} />
+              </div>
+              <p className="text-muted-foreground">
+                {price ? (
+                  <span className="text-2xl font-semibold text-foreground">${price.price.toFixed(2)}</span>
+                ) : loading ? (
+                  "Loading quote..."
+                ) : (
+                  "This symbol isn't on the watchlist"
+                )}
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setBookOpen(true)} disabled={!price}>
+              <BookOpen className="w-4 h-4 mr-2" />
+              Order book
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <main className="flex-1 container mx-auto px-6 py-8 space-y-6">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Full quote */}
+          <Card className="bg-card border border-border p-6">
+            <h2 className="text-lg font-semibold mb-4 text-foreground">Quote</h2>
+            {price ? (
+              <div className="space-y-2">
+                {quoteRows.map(([name, value]) => (
+                  <div key={name} className="flex items-center justify-between gap-4 text-sm">
+                    <span className="text-muted-foreground">{name}</span>
+                    <span className="font-semibold text-foreground">{value}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">{loading ? "Loading quote..." : "No quote available."}</p>
+            )}
+          </Card>
+
+          {/* Intraday chart */}
+          <Card className="bg-card border border-border p-6 lg:col-span-2">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-foreground">Intraday</h2>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                size="sm"
+                value={chartMode}
+                onValueChange={(value) => value && setChartMode(value as CandleChartMode)}
+              >
+                <ToggleGroupItem value="candlestick" className="text-xs px-3">
+                  Candles
+                </ToggleGroupItem>
+                <ToggleGroupItem value="area" className="text-xs px-3">
+                  Bid/Ask
+                </ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+            <CandleChart symbol={symbol} mode={chartMode} interval="1m" />
+          </Card>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Cache stats */}
+          <Card className="bg-card border border-border p-6">
+            <h2 className="text-lg font-semibold mb-4 text-foreground">Cache</h2>
+            {stats ? (
+              <div className="space-y-2">
+                {statRows.map(([name, value]) => (
+                  <div key={name} className="flex items-center justify-between gap-4 text-sm">
+                    <span className="text-muted-foreground">{name}</span>
+                    <span className="font-semibold text-foreground">{value}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {statsLoaded ? "No cache stats for this symbol." : "Loading cache stats..."}
+              </p>
+            )}
+          </Card>
+
+          {/* Spread history */}
+          <Card className="bg-card border border-border p-6 lg:col-span-2">
+            <h2 className="text-lg font-semibold mb-4 text-foreground">Spread History</h2>
+            {spreadHistory.length >= 2 ? (
+              <ResponsiveContainer width="100%" height={250}>
+                <LineChart data={spreadHistory} margin={{ top: 5, right: 30, left: 10, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+                  <XAxis dataKey="label" stroke="rgba(255,255,255,0.5)" />
+                  <YAxis stroke="rgba(255,255,255,0.5)" tickFormatter={(value: number) => value.toFixed(1)} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: "rgba(15, 20, 25, 0.95)",
+                      border: "1px solid rgba(255,255,255,0.1)",
+                    }}
+                    formatter={(value: number) => [`${value.toFixed(2)} bps`, "Spread"]}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="spreadBps"
+                    stroke={symbolColor(symbol)}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            ) : (
+              <p className="text-sm text-muted-foreground">Spread history appears after two minutes of quotes.</p>
+            )}
+          </Card>
+        </div>
+
+        {/* Upstream error log */}
+        <Card className="bg-card border border-border p-6">
+          <h2 className="text-lg font-semibold mb-4 text-foreground">Upstream Errors</h2>
+          {stats && stats.upstream_errors.length > 0 ? (
+            <ul className="space-y-2 text-sm">
+              {stats.upstream_errors.map((error) => (
+                <li key={`${error.time}-${error.message}`} className="flex items-start gap-3">
+                  <AlertCircle className="w-4 h-4 text-red-400 mt-0.5 flex-shrink-0" />
+                  <span className="text-muted-foreground font-mono text-xs mt-0.5">{formatTime(error.time)}</span>
+                  <span className="text-foreground">{error.message}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">No failed upstream fetches.</p>
+          )}
+        </Card>
+      </main>
+
+      <OrderBookDialog symbol={bookOpen ? symbol : null} onClose={() => setBookOpen(false)} />
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { mkdtemp, rm } from "fs/promises";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { PriceAlertEvent } from "@shared/types";
+import { AlertRuleError, parseRuleInput, PriceAlertEngine } from "./alerts";
+import type { Quote } from "./providers";
+
+const quote = (price: number, timestamp: number): Quote => ({
+  symbol: "AAPL",
+  price,
+  bid: price - 0.01,
+  ask: price + 0.01,
+  volume: 1,
+  timestamp,
+  source: "stub",
+});
+
+describe("PriceAlertEngine webhook", () => {
+  let dir: string;
+  let sink: Server;
+  let received: Promise<{ contentType?: string; event: PriceAlertEvent }>;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "alerts-"));
+    received = new Promise((resolve) => {
+      sink = createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+          res.writeHead(204).end();
+          resolve({
+            contentType: req.headers["content-type"],
+            event: JSON.parse(body),
+          });
+        });
+      });
+    });
+    await new Promise<void>((resolve) => sink.listen(0, "127.0.0.1", resolve));
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => sink.close(resolve));
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("POSTs a fired crosses alert to the webhook", async () => {
+    const { port } = sink.address() as AddressInfo;
+    const engine = new PriceAlertEngine({
+      file: path.join(dir, "alerts.json"),
+      webhookUrl: `http://127.0.0.1:${port}/hook`,
+    });
+    const rule = await engine.create(
+      parseRuleInput({
+        condition: {
+          type: "crosses",
+          symbol: "aapl",
+          level: 185,
+          direction: "above",
+        },
+      }),
+    );
+
+    engine.evaluate(quote(184.5, 1000));
+    engine.evaluate(quote(185.25, 2000));
+
+    const { contentType, event } = await received;
+    expect(contentType).toBe("application/json");
+    expect(event).toMatchObject({
+      rule_id: rule.id,
+      rule_name: "AAPL crosses above 185",
+      symbol: "AAPL",
+      price: 185.25,
+      message: "AAPL crossed above 185 at 185.25",
+    });
+    expect(engine.events()).toEqual([event]);
+  });
+});
+
+describe("parseRuleInput", () => {
+  it("rejects an unknown crossing direction", () => {
+    expect(() =>
+      parseRuleInput({
+        condition: {
+          type: "crosses",
+          symbol: "AAPL",
+          level: 1,
+          direction: "sideways",
+        },
+      }),
+    ).toThrow(AlertRuleError);
+  });
+});
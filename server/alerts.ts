@@ -0,0 +1,382 @@
+import { EventEmitter } from "events";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { nanoid } from "nanoid";
+import type {
+  PriceAlertCondition,
+  PriceAlertEvent,
+  PriceAlertRule,
+  PriceAlertRuleInput,
+} from "@shared/types";
+import type { Quote } from "./providers";
+
+export interface PriceAlertEngineOptions {
+  /** JSON file the rules and webhook URL are saved to */
+  file: string;
+  /** Used until a URL is saved through the API */
+  webhookUrl?: string;
+  /** Fired alerts kept for `GET /alerts/events` */
+  maxEvents?: number;
+}
+
+interface SavedAlerts {
+  webhook_url: string | null;
+  rules: PriceAlertRule[];
+}
+
+/**
+ * Thrown when an alert rule in a request is malformed
+ */
+export class AlertRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AlertRuleError";
+  }
+}
+
+type CrossDirection = Extract<
+  PriceAlertCondition,
+  { type: "crosses" }
+>["direction"];
+
+const DIRECTIONS: CrossDirection[] = ["above", "below", "either"];
+
+/** Longest `percent_move` window, which bounds the ticks kept per symbol */
+const MAX_WINDOW_SECONDS = 3600;
+
+function positive(value: unknown, name: string, max = Infinity): number {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0 || n > max) {
+    throw new AlertRuleError(`${name} must be a positive number`);
+  }
+  return n;
+}
+
+/**
+ * Validate a request body into a rule's name, condition and enabled flag
+ */
+export function parseRuleInput(
+  body: Record<string, unknown>,
+): Required<PriceAlertRuleInput> {
+  const raw = (
+    typeof body.condition === "object" && body.condition !== null
+      ? body.condition
+      : {}
+  ) as Record<string, unknown>;
+  const symbol = String(raw.symbol ?? "")
+    .trim()
+    .toUpperCase();
+  if (!symbol) throw new AlertRuleError("condition.symbol is required");
+
+  let condition: PriceAlertCondition;
+  switch (raw.type) {
+    case "crosses": {
+      const direction = (raw.direction ?? "either") as CrossDirection;
+      if (!DIRECTIONS.includes(direction)) {
+        throw new AlertRuleError(
+          "condition.direction must be above, below or either",
+        );
+      }
+      condition = {
+        type: "crosses",
+        symbol,
+        level: positive(raw.level, "condition.level"),
+        direction,
+      };
+      break;
+    }
+    case "percent_move":
+      condition = {
+        type: "percent_move",
+        symbol,
+        percent: positive(raw.percent, "condition.percent"),
+        window_seconds: positive(
+          raw.window_seconds,
+          "condition.window_seconds",
+          MAX_WINDOW_SECONDS,
+        ),
+      };
+      break;
+    case "spread":
+      condition = {
+        type: "spread",
+        symbol,
+        percent: positive(raw.percent, "condition.percent"),
+      };
+      break;
+    default:
+      throw new AlertRuleError(
+        "condition.type must be crosses, percent_move or spread",
+      );
+  }
+
+  return {
+    name: String(body.name ?? "").trim() || describeCondition(condition),
+    condition,
+    enabled: body.enabled === undefined ? true : Boolean(body.enabled),
+  };
+}
+
+export function describeCondition(condition: PriceAlertCondition): string {
+  switch (condition.type) {
+    case "crosses":
+      return condition.direction === "either"
+        ? `${condition.symbol} crosses ${condition.level}`
+        : `${condition.symbol} crosses ${condition.direction} ${condition.level}`;
+    case "percent_move":
+      return `${condition.symbol} moves ${condition.percent}% in ${condition.window_seconds}s`;
+    case "spread":
+      return `${condition.symbol} spread exceeds ${condition.percent}%`;
+  }
+}
+
+/**
+ * Evaluates price alert rules against every quote fetched from upstream.
+ * `crosses` rules fire on each crossing; `percent_move` and `spread` rules
+ * fire when their condition becomes true and re-arm once it is false again.
+ * Fired alerts are emitted as `alert` events and POSTed to the webhook.
+ */
+export class PriceAlertEngine extends EventEmitter {
+  private readonly rules = new Map<string, PriceAlertRule>();
+  /** Rules whose level-triggered condition currently holds */
+  private readonly active = new Set<string>();
+  private readonly ticks = new Map<
+    string,
+    { timestamp: number; price: number }[]
+  >();
+  private recent: PriceAlertEvent[] = [];
+  private webhookUrl: string | null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: PriceAlertEngineOptions) {
+    super();
+    this.webhookUrl = options.webhookUrl ?? null;
+  }
+
+  /**
+   * Read saved rules. A missing file means no rules yet.
+   */
+  async load(): Promise<void> {
+    let saved: SavedAlerts;
+    try {
+      saved = JSON.parse(await readFile(this.options.file, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+    this.webhookUrl = saved.webhook_url ?? this.webhookUrl;
+    saved.rules.forEach((rule) => this.rules.set(rule.id, rule));
+  }
+
+  list(): PriceAlertRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  get(id: string): PriceAlertRule | undefined {
+    return this.rules.get(id);
+  }
+
+  async create(input: Required<PriceAlertRuleInput>): Promise<PriceAlertRule> {
+    const rule: PriceAlertRule = {
+      id: nanoid(10),
+      ...input,
+      created_at: Date.now() / 1000,
+      last_fired_at: null,
+    };
+    this.rules.set(rule.id, rule);
+    await this.save();
+    return rule;
+  }
+
+  /**
+   * Replace a rule's name, condition and enabled flag.
+   * Returns undefined if there is no such rule.
+   */
+  async update(
+    id: string,
+    input: Required<PriceAlertRuleInput>,
+  ): Promise<PriceAlertRule | undefined> {
+    const rule = this.rules.get(id);
+    if (!rule) return undefined;
+    Object.assign(rule, input);
+    this.active.delete(id);
+    await this.save();
+    return rule;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    if (!this.rules.delete(id)) return false;
+    this.active.delete(id);
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Fired alerts, newest first
+   */
+  events(): PriceAlertEvent[] {
+    return [...this.recent].reverse();
+  }
+
+  webhook(): string | null {
+    return this.webhookUrl;
+  }
+
+  async setWebhook(url: string | null): Promise<void> {
+    if (url !== null) {
+      let parsed: URL;
+      try {
+        parsed = new URL(url);
+      } catch {
+        throw new AlertRuleError(`Invalid webhook URL "${url}"`);
+      }
+      if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+        throw new AlertRuleError("Webhook URL must use http or https");
+      }
+    }
+    this.webhookUrl = url;
+    await this.save();
+  }
+
+  /**
+   * Check every enabled rule for the quote's symbol
+   */
+  evaluate(quote: Quote) {
+    const ticks = this.ticks.get(quote.symbol) ?? [];
+    const previous = ticks[ticks.length - 1];
+    // The same tick can be fetched more than once between upstream updates
+    if (previous && quote.timestamp <= previous.timestamp) return;
+
+    ticks.push({ timestamp: quote.timestamp, price: quote.price });
+    const cutoff = quote.timestamp - MAX_WINDOW_SECONDS * 1000;
+    while (ticks.length > 0 && ticks[0].timestamp < cutoff) ticks.shift();
+    this.ticks.set(quote.symbol, ticks);
+
+    this.rules.forEach((rule) => {
+      if (!rule.enabled || rule.condition.symbol !== quote.symbol) return;
+      const message = this.check(rule.condition, quote, previous?.price, ticks);
+
+      if (rule.condition.type === "crosses") {
+        if (message) this.fire(rule, quote, message);
+        return;
+      }
+      if (!message) {
+        this.active.delete(rule.id);
+      } else if (!this.active.has(rule.id)) {
+        this.active.add(rule.id);
+        this.fire(rule, quote, message);
+      }
+    });
+  }
+
+  /**
+   * Send a sample alert to the webhook, throwing if delivery fails
+   */
+  async testWebhook(): Promise<void> {
+    await this.deliver({
+      id: nanoid(10),
+      rule_id: "test",
+      rule_name: "Webhook test",
+      symbol: "TEST",
+      message: "Test alert from the price cache",
+      price: 0,
+      fired_at: Date.now() / 1000,
+    });
+  }
+
+  /**
+   * Describe why the condition holds for this quote, or null if it doesn't
+   */
+  private check(
+    condition: PriceAlertCondition,
+    quote: Quote,
+    previousPrice: number | undefined,
+    ticks: { timestamp: number; price: number }[],
+  ): string | null {
+    const { symbol, price } = quote;
+    switch (condition.type) {
+      case "crosses": {
+        if (previousPrice === undefined) return null;
+        const { level, direction } = condition;
+        const up = previousPrice < level && price >= level;
+        const down = previousPrice > level && price <= level;
+        if (up && direction !== "below") {
+          return `${symbol} crossed above ${level} at ${price.toFixed(2)}`;
+        }
+        if (down && direction !== "above") {
+          return `${symbol} crossed below ${level} at ${price.toFixed(2)}`;
+        }
+        return null;
+      }
+      case "percent_move": {
+        const since = quote.timestamp - condition.window_seconds * 1000;
+        const reference = ticks.find((t) => t.timestamp >= since);
+        if (!reference || reference.price <= 0) return null;
+        const move = (price / reference.price - 1) * 100;
+        if (Math.abs(move) < condition.percent) return null;
+        return `${symbol} moved ${move > 0 ? "+" : ""}${move.toFixed(2)}% in ${condition.window_seconds}s to ${price.toFixed(2)}`;
+      }
+      case "spread": {
+        const mid = (quote.bid + quote.ask) / 2;
+        if (mid <= 0) return null;
+        const spread = ((quote.ask - quote.bid) / mid) * 100;
+        if (spread <= condition.percent) return null;
+        return `${symbol} spread is ${spread.toFixed(3)}% (bid ${quote.bid.toFixed(2)}, ask ${quote.ask.toFixed(2)})`;
+      }
+    }
+  }
+
+  private fire(rule: PriceAlertRule, quote: Quote, message: string) {
+    const event: PriceAlertEvent = {
+      id: nanoid(10),
+      rule_id: rule.id,
+      rule_name: rule.name,
+      symbol: quote.symbol,
+      message,
+      price: quote.price,
+      fired_at: Date.now() / 1000,
+    };
+    rule.last_fired_at = event.fired_at;
+    this.recent.push(event);
+    this.recent = this.recent.slice(-(this.options.maxEvents ?? 100));
+    this.emit("alert", event);
+
+    void this.save().catch((error) =>
+      console.warn("Failed to save alert rules:", error),
+    );
+    if (this.webhookUrl) {
+      this.deliver(event).catch((error) =>
+        console.warn(`Alert webhook delivery failed: ${error.message}`),
+      );
+    }
+  }
+
+  private async deliver(event: PriceAlertEvent) {
+    if (!this.webhookUrl) throw new Error("No webhook URL configured");
+    const response = await fetch(this.webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(event),
+      signal: AbortSignal.timeout(5000),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook returned ${response.status}`);
+    }
+  }
+
+  /**
+   * Write the rules file, one write at a time so saves can't interleave
+   */
+  private save(): Promise<void> {
+    const saved: SavedAlerts = {
+      webhook_url: this.webhookUrl,
+      rules: this.list(),
+    };
+    const write = async () => {
+      await mkdir(path.dirname(this.options.file), { recursive: true });
+      await writeFile(this.options.file, JSON.stringify(saved, null, 2));
+    };
+    this.saving = this.saving.then(write, write);
+    return this.saving;
+  }
+}
@@ -0,0 +1,119 @@
+import express from "express";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { BenchmarkRun } from "@shared/types";
+import { BenchmarkRunner } from "./benchmark";
+import { PriceCache } from "./priceCache";
+import type { PriceProvider } from "./providers";
+import { createApiRouter, type ApiServices } from "./routes";
+import { UpstreamBudget } from "./upstreamBudget";
+
+const provider: PriceProvider = {
+  name: "stub",
+  async getQuote(symbol) {
+    return {
+      symbol,
+      price: 100,
+      bid: 99.99,
+      ask: 100.01,
+      volume: 1,
+      timestamp: Date.now(),
+      source: "stub",
+    };
+  },
+};
+
+const finished = (benchmarks: BenchmarkRunner, run: BenchmarkRun) =>
+  new Promise<BenchmarkRun>((resolve) => {
+    const onDone = (done: BenchmarkRun) => {
+      if (done.id !== run.id) return;
+      benchmarks.off("done", onDone);
+      resolve(done);
+    };
+    benchmarks.on("done", onDone);
+  });
+
+describe("BenchmarkRunner", () => {
+  let server: Server;
+  let cache: PriceCache;
+  let budget: UpstreamBudget;
+  let benchmarks: BenchmarkRunner;
+
+  beforeEach(async () => {
+    budget = new UpstreamBudget(1000);
+    cache = new PriceCache({
+      symbols: ["AAPL"],
+      softTtlMs: 60000,
+      hardTtlMs: 120000,
+      provider,
+      budget,
+    });
+    benchmarks = new BenchmarkRunner({
+      cache,
+      baseUrl: () =>
+        `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    });
+    const app = express();
+    app.use("/api", createApiRouter({ cache, benchmarks } as ApiServices));
+    server = createServer(app);
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("keeps HTTP loopback reads out of the live stats", async () => {
+    await cache.get("AAPL", "price");
+    const stats = cache.stats();
+    const reads = cache.readCount("AAPL");
+
+    const run = benchmarks.start(
+      benchmarks.parseConfig({
+        mode: "http_loopback",
+        iterations: 50,
+        warmup: 10,
+        uncached_iterations: 0,
+      }),
+    );
+    const done = await finished(benchmarks, run);
+
+    expect(done.status).toBe("completed");
+    expect(done.progress).toBeNull();
+    expect(done.results[0].summary.count).toBe(50);
+    expect(cache.stats()).toMatchObject({
+      total_requests: stats.total_requests,
+      cache_hits: stats.cache_hits,
+      cache_misses: stats.cache_misses,
+    });
+    expect(cache.lookupLatency.count()).toBe(1);
+    expect(cache.readCount("AAPL")).toBe(reads);
+    const routes = cache.routeStats();
+    expect(routes.find((route) => route.route === "price")?.cache_hits).toBe(0);
+    expect(
+      routes.find((route) => route.route === "benchmark")?.cache_hits,
+    ).toBe(60);
+  });
+
+  it("charges uncached calls to the upstream budget", async () => {
+    const run = benchmarks.start(
+      benchmarks.parseConfig({
+        iterations: 10,
+        warmup: 0,
+        uncached_iterations: 3,
+      }),
+    );
+    const done = await finished(benchmarks, run);
+
+    expect(done.progress).toBeNull();
+    expect(benchmarks.list()[0].progress).toBeNull();
+    expect(done.results[0].uncached_summary.count).toBe(3);
+    // One miss filled the cache, then three uncached calls
+    expect(budget.status().foreground_calls).toBe(4);
+    expect(cache.upstreamLatency.count()).toBe(4);
+    expect(cache.size()).toBe(1);
+  });
+});
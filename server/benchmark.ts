@@ -0,0 +1,327 @@
+import { EventEmitter } from "events";
+import { nanoid } from "nanoid";
+import type {
+  BenchmarkConfig,
+  BenchmarkMode,
+  BenchmarkRun,
+  LatencySummary,
+} from "@shared/types";
+import { type BenchmarkHistory, withoutSamples } from "./benchmarkHistory";
+import type { PriceCache } from "./priceCache";
+
+export interface BenchmarkRunnerOptions {
+  cache: PriceCache;
+  /** Origin of this server, for HTTP loopback runs */
+  baseUrl: () => string;
+  /** Finished runs kept in memory */
+  maxRuns?: number;
+  /** Where completed runs are saved */
+  history?: BenchmarkHistory;
+  /** Commit stamped on every run */
+  gitCommit?: string | null;
+}
+
+/**
+ * Thrown when a requested benchmark configuration is out of range
+ */
+export class BenchmarkConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BenchmarkConfigError";
+  }
+}
+
+/**
+ * Header loopback reads carry, holding the run id, so the API counts them
+ * under the `benchmark` route instead of as live `/price` traffic
+ */
+export const BENCHMARK_HEADER = "X-Benchmark-Run";
+
+const MODES: BenchmarkMode[] = ["in_process", "http_loopback"];
+const MAX_ITERATIONS = 100_000;
+const MAX_CONCURRENCY = 64;
+/** Iterations between yields to the event loop and progress events */
+const PROGRESS_EVERY = 500;
+
+const elapsedNs = (start: bigint) => Number(process.hrtime.bigint() - start);
+const yieldToEventLoop = () => new Promise((resolve) => setImmediate(resolve));
+
+function readInt(
+  value: unknown,
+  name: string,
+  fallback: number,
+  min: number,
+  max: number,
+): number {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min || n > max) {
+    throw new BenchmarkConfigError(
+      `${name} must be an integer between ${min} and ${max}`,
+    );
+  }
+  return n;
+}
+
+/**
+ * Summarise nanosecond samples in microseconds
+ */
+export function summarize(samplesNs: number[]): LatencySummary {
+  if (samplesNs.length === 0) {
+    return {
+      count: 0,
+      min: 0,
+      max: 0,
+      mean: 0,
+      median: 0,
+      p95: 0,
+      p99: 0,
+      stddev: 0,
+    };
+  }
+  const sorted = samplesNs.map((ns) => ns / 1000).sort((a, b) => a - b);
+  const count = sorted.length;
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / count;
+  const variance = sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / count;
+  const at = (p: number) =>
+    sorted[Math.min(count - 1, Math.ceil(p * count) - 1)];
+  return {
+    count,
+    min: sorted[0],
+    max: sorted[count - 1],
+    mean,
+    median: at(0.5),
+    p95: at(0.95),
+    p99: at(0.99),
+    stddev: Math.sqrt(variance),
+  };
+}
+
+/**
+ * Runs latency benchmarks against the cache one at a time and reports
+ * progress through `progress`/`done` events keyed by run id
+ */
+export class BenchmarkRunner extends EventEmitter {
+  private readonly runs = new Map<string, BenchmarkRun>();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: BenchmarkRunnerOptions) {
+    super();
+    // One listener pair per open progress stream
+    this.setMaxListeners(0);
+  }
+
+  /**
+   * Validate a request body into a full configuration
+   */
+  parseConfig(body: Record<string, unknown>): BenchmarkConfig {
+    const mode = (body.mode ?? "in_process") as BenchmarkMode;
+    if (!MODES.includes(mode)) {
+      throw new BenchmarkConfigError(`mode must be one of ${MODES.join(", ")}`);
+    }
+
+    let symbols = this.options.cache.getSymbols();
+    if (body.symbols !== undefined) {
+      if (!Array.isArray(body.symbols) || body.symbols.length === 0) {
+        throw new BenchmarkConfigError("symbols must be a non-empty array");
+      }
+      symbols = body.symbols.map((s) => String(s).toUpperCase());
+      const unknown = symbols.filter((s) => !this.options.cache.has(s));
+      if (unknown.length > 0) {
+        throw new BenchmarkConfigError(
+          `Symbols not tracked: ${unknown.join(", ")}`,
+        );
+      }
+    }
+
+    return {
+      iterations: readInt(
+        body.iterations,
+        "iterations",
+        1000,
+        1,
+        MAX_ITERATIONS,
+      ),
+      warmup: readInt(body.warmup, "warmup", 100, 0, MAX_ITERATIONS),
+      concurrency: readInt(
+        body.concurrency,
+        "concurrency",
+        1,
+        1,
+        MAX_CONCURRENCY,
+      ),
+      uncached_iterations: readInt(
+        body.uncached_iterations,
+        "uncached_iterations",
+        5,
+        0,
+        1000,
+      ),
+      symbols,
+      mode,
+    };
+  }
+
+  start(config: BenchmarkConfig): BenchmarkRun {
+    const run: BenchmarkRun = {
+      id: nanoid(10),
+      status: "queued",
+      git_commit: this.options.gitCommit ?? null,
+      config,
+      created_at: Date.now() / 1000,
+      started_at: null,
+      finished_at: null,
+      progress: null,
+      results: [],
+      error: null,
+    };
+    this.runs.set(run.id, run);
+    this.prune();
+    this.queue = this.queue.then(() => this.execute(run));
+    return run;
+  }
+
+  /**
+   * A run from memory, or from history once it has been pruned
+   */
+  get(id: string): BenchmarkRun | undefined {
+    return this.runs.get(id) ?? this.options.history?.get(id);
+  }
+
+  /**
+   * Saved and in-memory runs without raw samples, newest first
+   */
+  list(): BenchmarkRun[] {
+    const runs = new Map<string, BenchmarkRun>();
+    this.options.history?.list().forEach((run) => runs.set(run.id, run));
+    this.runs.forEach((run) => runs.set(run.id, withoutSamples(run)));
+    return Array.from(runs.values()).sort(
+      (a, b) => b.created_at - a.created_at,
+    );
+  }
+
+  private prune() {
+    const max = this.options.maxRuns ?? 20;
+    const finished = Array.from(this.runs.values()).filter(
+      (run) => run.status === "completed" || run.status === "failed",
+    );
+    while (this.runs.size > max && finished.length > 0) {
+      this.runs.delete(finished.shift()!.id);
+    }
+  }
+
+  private async execute(run: BenchmarkRun) {
+    run.status = "running";
+    run.started_at = Date.now() / 1000;
+    try {
+      for (const symbol of run.config.symbols) {
+        await this.measure(run, symbol, "warmup", run.config.warmup);
+        const samples = await this.measure(
+          run,
+          symbol,
+          "measure",
+          run.config.iterations,
+        );
+        const uncached = await this.measureUncached(run, symbol);
+        const summary = summarize(samples);
+        const uncachedSummary = summarize(uncached);
+        run.results.push({
+          symbol,
+          samples_ns: samples,
+          summary,
+          uncached_samples_ns: uncached,
+          uncached_summary: uncachedSummary,
+          speedup: summary.mean > 0 ? uncachedSummary.mean / summary.mean : 0,
+        });
+      }
+      run.status = "completed";
+      run.finished_at = Date.now() / 1000;
+      run.progress = null;
+      await this.options.history?.append(run);
+    } catch (error) {
+      run.status = "failed";
+      run.error = error instanceof Error ? error.message : String(error);
+      run.finished_at = Date.now() / 1000;
+    }
+    this.emit("done", run);
+  }
+
+  /**
+   * Time `total` cache reads of one symbol across `concurrency` workers
+   */
+  private async measure(
+    run: BenchmarkRun,
+    symbol: string,
+    phase: "warmup" | "measure",
+    total: number,
+  ): Promise<number[]> {
+    const samples: number[] = [];
+    const read = this.reader(run);
+    let started = 0;
+    let completed = 0;
+
+    const report = () => {
+      run.progress = { phase, symbol, completed, total };
+      this.emit("progress", run);
+    };
+
+    const worker = async () => {
+      while (started < total) {
+        started++;
+        const start = process.hrtime.bigint();
+        await read(symbol);
+        const ns = elapsedNs(start);
+        if (phase === "measure") samples.push(ns);
+        completed++;
+        if (completed % PROGRESS_EVERY === 0) {
+          report();
+          await yieldToEventLoop();
+        }
+      }
+    };
+
+    report();
+    const workers = Math.min(run.config.concurrency, Math.max(total, 1));
+    await Promise.all(Array.from({ length: workers }, worker));
+    report();
+    return samples;
+  }
+
+  /**
+   * Time upstream calls that bypass the cache, through the same breaker and
+   * budget as cache misses
+   */
+  private async measureUncached(
+    run: BenchmarkRun,
+    symbol: string,
+  ): Promise<number[]> {
+    const samples: number[] = [];
+    const total = run.config.uncached_iterations;
+    for (let i = 0; i < total; i++) {
+      run.progress = { phase: "uncached", symbol, completed: i, total };
+      this.emit("progress", run);
+      const start = process.hrtime.bigint();
+      await this.options.cache.fetchUncached(symbol);
+      samples.push(elapsedNs(start));
+    }
+    return samples;
+  }
+
+  private reader(run: BenchmarkRun): (symbol: string) => Promise<unknown> {
+    if (run.config.mode === "in_process") {
+      return (symbol) => this.options.cache.get(symbol, "benchmark");
+    }
+    return async (symbol) => {
+      const response = await fetch(
+        `${this.options.baseUrl()}/api/price/${encodeURIComponent(symbol)}`,
+        { headers: { [BENCHMARK_HEADER]: run.id } },
+      );
+      if (!response.ok) {
+        throw new Error(
+          `Loopback read of ${symbol} returned ${response.status}`,
+        );
+      }
+      await response.json();
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import { execFile } from "child_process";
+import { appendFile, mkdir, readFile } from "fs/promises";
+import path from "path";
+import { promisify } from "util";
+import type { BenchmarkRun } from "@shared/types";
+
+/**
+ * Copy of a run without its raw samples, which are too large to keep on disk
+ */
+export function withoutSamples(run: BenchmarkRun): BenchmarkRun {
+  return {
+    ...run,
+    results: run.results.map((r) => ({
+      ...r,
+      samples_ns: [],
+      uncached_samples_ns: [],
+    })),
+  };
+}
+
+/**
+ * Commit to stamp benchmark runs with, from GIT_COMMIT or the working tree
+ */
+export async function resolveGitCommit(): Promise<string | null> {
+  if (process.env.GIT_COMMIT) return process.env.GIT_COMMIT;
+  try {
+    const { stdout } = await promisify(execFile)("git", ["rev-parse", "HEAD"]);
+    return stdout.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Finished benchmark runs, persisted as one JSON object per line
+ */
+export class BenchmarkHistory {
+  private runs: BenchmarkRun[] = [];
+
+  constructor(private readonly file: string) {}
+
+  /**
+   * Read previously saved runs. A missing file is an empty history;
+   * unparseable lines are skipped so one bad write can't lose the rest.
+   */
+  async load(): Promise<void> {
+    let contents: string;
+    try {
+      contents = await readFile(this.file, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+    this.runs = [];
+    contents.split("\n").forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        this.runs.push(JSON.parse(line));
+      } catch {
+        console.warn(`${this.file}:${index + 1}: skipping invalid run`);
+      }
+    });
+  }
+
+  async append(run: BenchmarkRun): Promise<void> {
+    const saved = withoutSamples(run);
+    await mkdir(path.dirname(this.file), { recursive: true });
+    await appendFile(this.file, JSON.stringify(saved) + "\n", "utf8");
+    this.runs.push(saved);
+  }
+
+  get(id: string): BenchmarkRun | undefined {
+    return this.runs.find((run) => run.id === id);
+  }
+
+  /**
+   * Saved runs, oldest first
+   */
+  list(): BenchmarkRun[] {
+    return [...this.runs];
+  }
+}
@@ -0,0 +1,114 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CacheSnapshotter } from "./cacheSnapshot";
+import { PriceCache } from "./priceCache";
+import type { PriceProvider } from "./providers";
+
+const provider: PriceProvider = {
+  name: "stub",
+  async getQuote(symbol) {
+    return {
+      symbol,
+      price: 100,
+      bid: 99.99,
+      ask: 100.01,
+      volume: 1,
+      timestamp: Date.now(),
+      source: "stub",
+    };
+  },
+};
+
+const newCache = () =>
+  new PriceCache({
+    symbols: ["AAPL", "MSFT"],
+    softTtlMs: 2000,
+    hardTtlMs: 30000,
+    provider,
+  });
+
+describe("CacheSnapshotter", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "snapshot-"));
+    file = path.join(dir, "cache-snapshot.json");
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("restores the entries and counters it saved", async () => {
+    const before = newCache();
+    await before.get("AAPL");
+    await before.get("AAPL");
+    await new CacheSnapshotter({ cache: before, file, intervalMs: 0 }).save();
+
+    const after = newCache();
+    const restored = await new CacheSnapshotter({
+      cache: after,
+      file,
+      intervalMs: 0,
+    }).restore();
+
+    expect(restored).toBe(1);
+    expect(after.size()).toBe(1);
+    expect(after.stats()).toMatchObject({ cache_hits: 1, cache_misses: 1 });
+  });
+
+  it.each([
+    ["missing counters", { version: 1, saved_at: 1, entries: [] }],
+    [
+      "an entry without a symbol",
+      {
+        version: 1,
+        saved_at: 1,
+        entries: [
+          {
+            stored_at: 1,
+            quote: {
+              price: 1,
+              bid: 1,
+              ask: 1,
+              volume: 0,
+              timestamp: 1,
+              source: "x",
+            },
+          },
+        ],
+        counters: {},
+      },
+    ],
+    [
+      "non-numeric counters",
+      {
+        version: 1,
+        saved_at: 1,
+        entries: [],
+        counters: { AAPL: { hits: "many" } },
+      },
+    ],
+  ])("starts cold from a snapshot with %s", async (_, snapshot) => {
+    await writeFile(file, JSON.stringify(snapshot));
+    const cache = newCache();
+
+    const restored = await new CacheSnapshotter({
+      cache,
+      file,
+      intervalMs: 0,
+    }).restore();
+
+    expect(restored).toBe(0);
+    expect(cache.size()).toBe(0);
+    expect(cache.health().warm_start).toBe(false);
+    expect(console.warn).toHaveBeenCalledWith(
+      `${file}: ignoring malformed cache snapshot`,
+    );
+  });
+});
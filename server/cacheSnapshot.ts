@@ -0,0 +1,121 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import type { CacheSnapshot, PriceCache } from "./priceCache";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+/** Counters added after the first snapshots were written, so may be absent */
+const OPTIONAL_COUNTERS = ["refreshes", "coalesced"];
+
+/**
+ * Check every field `PriceCache.restore` reads, so a damaged file can't
+ * throw halfway through restoring it
+ */
+function isValidSnapshot(snapshot: Record<string, unknown>): boolean {
+  const { saved_at, entries, counters } = snapshot;
+  if (!isNumber(saved_at) || !Array.isArray(entries) || !isRecord(counters)) {
+    return false;
+  }
+  const entriesValid = entries.every(
+    (entry) =>
+      isRecord(entry) &&
+      isNumber(entry.stored_at) &&
+      isRecord(entry.quote) &&
+      typeof entry.quote.symbol === "string" &&
+      typeof entry.quote.source === "string" &&
+      ["price", "bid", "ask", "volume", "timestamp"].every((field) =>
+        isNumber((entry.quote as Record<string, unknown>)[field]),
+      ),
+  );
+  const countersValid = Object.values(counters).every(
+    (saved) =>
+      isRecord(saved) &&
+      ["hits", "staleHits", "misses", "refreshErrors"].every((field) =>
+        isNumber(saved[field]),
+      ) &&
+      OPTIONAL_COUNTERS.every(
+        (field) => saved[field] === undefined || isNumber(saved[field]),
+      ),
+  );
+  return entriesValid && countersValid;
+}
+
+export interface CacheSnapshotterOptions {
+  cache: PriceCache;
+  /** JSON file the snapshot is written to and restored from */
+  file: string;
+  /** How often to write a snapshot; 0 only writes on shutdown */
+  intervalMs: number;
+}
+
+/**
+ * Persists the price cache across restarts so a new process starts warm
+ * instead of with a run of misses. Snapshots are written to a temporary file
+ * and renamed into place, so a crash mid-write leaves the previous one intact.
+ */
+export class CacheSnapshotter {
+  private timer: NodeJS.Timeout | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: CacheSnapshotterOptions) {}
+
+  /**
+   * Restore the last snapshot into the cache. A missing file is a cold
+   * start; an unreadable or malformed one is logged and ignored. Returns the
+   * number of entries restored.
+   */
+  async restore(): Promise<number> {
+    let snapshot: unknown;
+    try {
+      snapshot = JSON.parse(await readFile(this.options.file, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.warn(`${this.options.file}: ignoring cache snapshot:`, error);
+      }
+      return 0;
+    }
+    if (!isRecord(snapshot) || snapshot.version !== 1) {
+      console.warn(`${this.options.file}: unsupported cache snapshot format`);
+      return 0;
+    }
+    if (!isValidSnapshot(snapshot)) {
+      console.warn(`${this.options.file}: ignoring malformed cache snapshot`);
+      return 0;
+    }
+    return this.options.cache.restore(snapshot as unknown as CacheSnapshot);
+  }
+
+  start() {
+    if (this.options.intervalMs <= 0) return;
+    this.timer = setInterval(() => {
+      this.save().catch((error) =>
+        console.error("Failed to write cache snapshot:", error),
+      );
+    }, this.options.intervalMs);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Write the cache's current state, one write at a time
+   */
+  save(): Promise<void> {
+    const { cache, file } = this.options;
+    const write = async () => {
+      const snapshot = cache.snapshot();
+      const tmp = `${file}.tmp`;
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(tmp, JSON.stringify(snapshot));
+      await rename(tmp, file);
+    };
+    this.saving = this.saving.then(write, write);
+    return this.saving;
+  }
+}
@@ -0,0 +1,108 @@
+import type { Candle, CandleInterval } from "@shared/types";
+import type { Quote } from "./providers";
+
+export const CANDLE_INTERVALS: Record<CandleInterval, number> = {
+  "1s": 1000,
+  "1m": 60_000,
+  "5m": 300_000,
+  "1h": 3_600_000,
+};
+
+export type CandleRetention = Record<CandleInterval, number>;
+
+interface SymbolSeries {
+  lastTimestamp: number;
+  lastVolume: number;
+  candles: Record<CandleInterval, Candle[]>;
+}
+
+const INTERVALS = Object.keys(CANDLE_INTERVALS) as CandleInterval[];
+
+export function isCandleInterval(value: string): value is CandleInterval {
+  return value in CANDLE_INTERVALS;
+}
+
+/**
+ * In-memory OHLCV time series built from upstream ticks.
+ * Every tick updates the current bar of each interval, and bars older than
+ * that interval's retention are dropped as new ones open.
+ *
+ * Quote volume is cumulative for the session, so a bar's volume is the
+ * increase over the previous tick; a drop is treated as a session reset.
+ */
+export class CandleStore {
+  private readonly series = new Map<string, SymbolSeries>();
+
+  /**
+   * @param retentionMs How long bars of each interval are kept
+   */
+  constructor(private readonly retentionMs: CandleRetention) {}
+
+  record(quote: Quote) {
+    let series = this.series.get(quote.symbol);
+    if (!series) {
+      series = {
+        lastTimestamp: -Infinity,
+        lastVolume: quote.volume,
+        candles: { "1s": [], "1m": [], "5m": [], "1h": [] },
+      };
+      this.series.set(quote.symbol, series);
+    }
+    // The same tick can be fetched more than once between upstream updates
+    if (quote.timestamp <= series.lastTimestamp) return;
+
+    const traded =
+      quote.volume >= series.lastVolume ? quote.volume - series.lastVolume : 0;
+    series.lastTimestamp = quote.timestamp;
+    series.lastVolume = quote.volume;
+
+    for (const interval of INTERVALS) {
+      const bars = series.candles[interval];
+      const width = CANDLE_INTERVALS[interval];
+      const openMs = Math.floor(quote.timestamp / width) * width;
+      const last = bars[bars.length - 1];
+
+      if (last && last.time * 1000 === openMs) {
+        last.high = Math.max(last.high, quote.price);
+        last.low = Math.min(last.low, quote.price);
+        last.close = quote.price;
+        last.volume += traded;
+        last.bid = quote.bid;
+        last.ask = quote.ask;
+        last.ticks++;
+        continue;
+      }
+
+      bars.push({
+        time: openMs / 1000,
+        open: quote.price,
+        high: quote.price,
+        low: quote.price,
+        close: quote.price,
+        volume: traded,
+        bid: quote.bid,
+        ask: quote.ask,
+        ticks: 1,
+      });
+      const cutoff = (openMs - this.retentionMs[interval]) / 1000;
+      const expired = bars.findIndex((bar) => bar.time > cutoff);
+      if (expired > 0) bars.splice(0, expired);
+    }
+  }
+
+  /**
+   * Bars whose open time falls in [fromMs, toMs], oldest first
+   */
+  query(
+    symbol: string,
+    interval: CandleInterval,
+    fromMs = -Infinity,
+    toMs = Infinity,
+  ): Candle[] {
+    const bars = this.series.get(symbol.toUpperCase())?.candles[interval];
+    if (!bars) return [];
+    return bars
+      .filter((bar) => bar.time * 1000 >= fromMs && bar.time * 1000 <= toMs)
+      .map((bar) => ({ ...bar }));
+  }
+}
@@ -0,0 +1,162 @@
+import type { CircuitBreakerMetrics, CircuitState } from "@shared/types";
+import type { Clock } from "./providers";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures in CLOSED before the circuit opens */
+  failureThreshold: number;
+  /** Successful trial calls in HALF_OPEN before the circuit closes */
+  successThreshold: number;
+  /** Time spent OPEN before trial calls are allowed */
+  timeoutSeconds: number;
+  /** Concurrent trial calls allowed while HALF_OPEN */
+  halfOpenMaxCalls: number;
+  clock?: Clock;
+}
+
+/**
+ * Thrown instead of calling upstream while the circuit rejects calls
+ */
+export class CircuitOpenError extends Error {
+  constructor(public readonly breaker: string) {
+    super(`Circuit breaker ${breaker} is open`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * CLOSED/OPEN/HALF_OPEN circuit breaker around upstream calls
+ */
+export class CircuitBreaker {
+  private readonly clock: Clock;
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private halfOpenSuccesses = 0;
+  private halfOpenInFlight = 0;
+  private openedAt = 0;
+  private successfulCalls = 0;
+  private failedCalls = 0;
+  private rejectedCalls = 0;
+  private stateChanges = 0;
+  private lastFailureTime: number | null = null;
+  private lastStateChangeTime: number;
+
+  constructor(
+    public readonly name: string,
+    private readonly options: CircuitBreakerOptions,
+  ) {
+    this.clock = options.clock ?? Date.now;
+    this.lastStateChangeTime = this.clock();
+  }
+
+  getState(): CircuitState {
+    if (
+      this.state === "open" &&
+      this.clock() - this.openedAt >= this.options.timeoutSeconds * 1000
+    ) {
+      this.transition("half_open");
+    }
+    return this.state;
+  }
+
+  /**
+   * Run `fn` through the breaker, rejecting with CircuitOpenError when the
+   * circuit is open or the half-open trial slots are taken
+   */
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    const state = this.getState();
+    if (
+      state === "open" ||
+      (state === "half_open" &&
+        this.halfOpenInFlight >= this.options.halfOpenMaxCalls)
+    ) {
+      this.rejectedCalls++;
+      throw new CircuitOpenError(this.name);
+    }
+
+    const trial = state === "half_open";
+    if (trial) this.halfOpenInFlight++;
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      this.onFailure();
+      throw error;
+    } finally {
+      if (trial) this.halfOpenInFlight--;
+    }
+  }
+
+  /**
+   * Force the circuit back to CLOSED
+   */
+  reset() {
+    this.consecutiveFailures = 0;
+    if (this.state !== "closed") {
+      this.transition("closed");
+    }
+  }
+
+  metrics(): CircuitBreakerMetrics {
+    const completed = this.successfulCalls + this.failedCalls;
+    return {
+      name: this.name,
+      state: this.getState(),
+      total_calls: completed + this.rejectedCalls,
+      successful_calls: this.successfulCalls,
+      failed_calls: this.failedCalls,
+      rejected_calls: this.rejectedCalls,
+      success_rate_percent:
+        completed > 0 ? (this.successfulCalls / completed) * 100 : 100,
+      state_changes: this.stateChanges,
+      last_failure_time:
+        this.lastFailureTime === null ? null : this.lastFailureTime / 1000,
+      last_state_change_time: this.lastStateChangeTime / 1000,
+      config: {
+        failure_threshold: this.options.failureThreshold,
+        success_threshold: this.options.successThreshold,
+        timeout_seconds: this.options.timeoutSeconds,
+        half_open_max_calls: this.options.halfOpenMaxCalls,
+      },
+    };
+  }
+
+  private onSuccess() {
+    this.successfulCalls++;
+    this.consecutiveFailures = 0;
+    if (this.state === "half_open") {
+      this.halfOpenSuccesses++;
+      if (this.halfOpenSuccesses >= this.options.successThreshold) {
+        this.transition("closed");
+      }
+    }
+  }
+
+  private onFailure() {
+    this.failedCalls++;
+    this.lastFailureTime = this.clock();
+    if (this.state === "half_open") {
+      this.transition("open");
+      return;
+    }
+    this.consecutiveFailures++;
+    if (
+      this.state === "closed" &&
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.transition("open");
+    }
+  }
+
+  private transition(next: CircuitState) {
+    this.state = next;
+    this.stateChanges++;
+    this.lastStateChangeTime = this.clock();
+    this.halfOpenSuccesses = 0;
+    if (next === "open") {
+      this.openedAt = this.lastStateChangeTime;
+    } else {
+      this.consecutiveFailures = 0;
+    }
+  }
+}
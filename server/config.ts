@@ -0,0 +1,105 @@
+/**
+ * Server configuration, read once from the environment at startup
+ */
+
+const DEFAULT_SYMBOLS = ["AAPL", "MSFT", "GOOGL", "AMZN", "TSLA"];
+
+function readNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    throw new Error(`${name} must be a number, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * A number that has to be above zero, such as a rate or speed that is
+ * divided by
+ */
+function readPositiveNumber(name: string, fallback: number): number {
+  const value = readNumber(name, fallback);
+  if (value <= 0) {
+    throw new Error(`${name} must be greater than 0, got ${value}`);
+  }
+  return value;
+}
+
+function readString(name: string): string | undefined {
+  const raw = process.env[name];
+  return raw === undefined || raw === "" ? undefined : raw;
+}
+
+function readList(name: string, fallback: string[]): string[] {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  return raw
+    .split(",")
+    .map((item) => item.trim().toUpperCase())
+    .filter(Boolean);
+}
+
+export const config = {
+  port: readNumber("PORT", 3000),
+  /** Origins of dashboards hosted elsewhere that may call this API, or "*" */
+  corsOrigins: (readString("CORS_ORIGINS") ?? "")
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean),
+  symbols: readList("SYMBOLS", DEFAULT_SYMBOLS),
+  cacheSoftTtlMs: readNumber("CACHE_SOFT_TTL_MS", 2000),
+  cacheHardTtlMs: readNumber("CACHE_HARD_TTL_MS", 30000),
+  /** Capacity limits, 0 for unlimited */
+  cacheMaxEntries: readNumber("CACHE_MAX_ENTRIES", 0),
+  cacheMaxBytes: readNumber("CACHE_MAX_BYTES", 0),
+  cacheEvictionPolicy: readString("CACHE_EVICTION_POLICY") ?? "lru",
+  /** Upstream calls per second across reads and background refreshes, 0 for unlimited */
+  upstreamBudgetPerSecond: readNumber("UPSTREAM_BUDGET_PER_SECOND", 10),
+  refreshScheduler: {
+    enabled: readString("REFRESH_SCHEDULER") !== "false",
+    minIntervalMs: readNumber("REFRESH_MIN_INTERVAL_MS", 1000),
+    maxIntervalMs: readNumber("REFRESH_MAX_INTERVAL_MS", 30000),
+    tickMs: readNumber("REFRESH_TICK_MS", 250),
+  },
+  statsIntervalMs: readNumber("WS_STATS_INTERVAL_MS", 3000),
+  priceIntervalMs: readNumber("WS_PRICE_INTERVAL_MS", 1000),
+  provider: {
+    provider: readString("PRICE_PROVIDER") ?? "simulator",
+    seed: readNumber("SIMULATOR_SEED", 42),
+    failureRate: readNumber("SIMULATOR_FAILURE_RATE", 0),
+    bookDepth: readNumber("BOOK_DEPTH", 10),
+    simulatorConfigFile: readString("SIMULATOR_CONFIG"),
+    replayFile: readString("REPLAY_FILE"),
+    replaySpeed: readPositiveNumber("REPLAY_SPEED", 1),
+    replayLoop: readString("REPLAY_LOOP") !== "false",
+  },
+  /** Seconds of candles kept per interval */
+  historyRetentionSeconds: {
+    "1s": readNumber("HISTORY_RETENTION_1S", 3600),
+    "1m": readNumber("HISTORY_RETENTION_1M", 86_400),
+    "5m": readNumber("HISTORY_RETENTION_5M", 604_800),
+    "1h": readNumber("HISTORY_RETENTION_1H", 2_592_000),
+  },
+  slo: {
+    minHitRatePercent: readNumber("SLO_MIN_HIT_RATE_PERCENT", 90),
+    hitRateWindowSeconds: readNumber("SLO_HIT_RATE_WINDOW_SECONDS", 300),
+    maxP99LatencyUs: readNumber("SLO_MAX_P99_LATENCY_US", 1000),
+    maxBreakerOpenSeconds: readNumber("SLO_MAX_BREAKER_OPEN_SECONDS", 30),
+    maxCacheAgeSeconds: readNumber("SLO_MAX_CACHE_AGE_SECONDS", 120),
+  },
+  sloEvaluateIntervalMs: readNumber("SLO_EVALUATE_INTERVAL_MS", 5000),
+  alertRulesFile: readString("ALERT_RULES_FILE") ?? "data/alert-rules.json",
+  alertWebhookUrl: readString("ALERT_WEBHOOK_URL"),
+  benchmarkHistoryFile:
+    readString("BENCHMARK_HISTORY_FILE") ?? "data/benchmark-history.jsonl",
+  cacheSnapshotFile:
+    readString("CACHE_SNAPSHOT_FILE") ?? "data/cache-snapshot.json",
+  cacheSnapshotIntervalMs: readNumber("CACHE_SNAPSHOT_INTERVAL_MS", 30000),
+  circuitBreaker: {
+    failureThreshold: readNumber("CB_FAILURE_THRESHOLD", 5),
+    successThreshold: readNumber("CB_SUCCESS_THRESHOLD", 2),
+    timeoutSeconds: readNumber("CB_TIMEOUT_SECONDS", 60),
+    halfOpenMaxCalls: readNumber("CB_HALF_OPEN_MAX_CALLS", 3),
+  },
+};
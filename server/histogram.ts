@@ -0,0 +1,121 @@
+import type { HistogramBucket } from "@shared/types";
+
+/** Linear sub-buckets per power of two, bounding relative error to ~6% */
+const SUB_BUCKETS = 16;
+const SUB_BUCKET_BITS = 4;
+/** Highest power of two tracked; larger values land in the last bucket */
+const MAX_EXPONENT = 40;
+const BUCKET_COUNT =
+  SUB_BUCKETS + (MAX_EXPONENT - SUB_BUCKET_BITS + 1) * SUB_BUCKETS;
+
+function bucketIndex(value: number): number {
+  if (value < SUB_BUCKETS) return Math.max(0, Math.floor(value));
+  const exponent = Math.min(Math.floor(Math.log2(value)), MAX_EXPONENT);
+  const width = 2 ** (exponent - SUB_BUCKET_BITS);
+  const sub = Math.min(
+    Math.floor((value - 2 ** exponent) / width),
+    SUB_BUCKETS - 1,
+  );
+  return SUB_BUCKETS + (exponent - SUB_BUCKET_BITS) * SUB_BUCKETS + sub;
+}
+
+function bucketBounds(index: number): [number, number] {
+  if (index < SUB_BUCKETS) return [index, index + 1];
+  const exponent =
+    SUB_BUCKET_BITS + Math.floor((index - SUB_BUCKETS) / SUB_BUCKETS);
+  const sub = (index - SUB_BUCKETS) % SUB_BUCKETS;
+  const width = 2 ** (exponent - SUB_BUCKET_BITS);
+  const lower = 2 ** exponent + sub * width;
+  return [lower, lower + width];
+}
+
+/**
+ * Fixed-size log-linear histogram of nanosecond latencies.
+ * Values below 16ns are counted exactly; above that each power of two is split
+ * into 16 linear buckets, so memory stays constant no matter how many samples
+ * are recorded.
+ */
+export class LatencyHistogram {
+  private counts = new Float64Array(BUCKET_COUNT);
+  private total = 0;
+  private sum = 0;
+  private min = Infinity;
+  private max = 0;
+
+  record(valueNs: number) {
+    this.counts[bucketIndex(valueNs)]++;
+    this.total++;
+    this.sum += valueNs;
+    this.min = Math.min(this.min, valueNs);
+    this.max = Math.max(this.max, valueNs);
+  }
+
+  count(): number {
+    return this.total;
+  }
+
+  sumValue(): number {
+    return this.sum;
+  }
+
+  mean(): number {
+    return this.total > 0 ? this.sum / this.total : 0;
+  }
+
+  maxValue(): number {
+    return this.max;
+  }
+
+  /**
+   * Upper bound of the bucket holding the given percentile (0-100),
+   * clamped to the observed min and max
+   */
+  percentile(p: number): number {
+    if (this.total === 0) return 0;
+    const rank = Math.max(1, Math.ceil((p / 100) * this.total));
+    let seen = 0;
+    for (let i = 0; i < BUCKET_COUNT; i++) {
+      seen += this.counts[i];
+      if (seen >= rank) {
+        const [, upper] = bucketBounds(i);
+        return Math.min(Math.max(upper, this.min), this.max);
+      }
+    }
+    return this.max;
+  }
+
+  /**
+   * Number of samples in buckets lying entirely at or below `upperNs`.
+   * Used to map onto coarser fixed boundaries such as Prometheus `le` labels.
+   */
+  countAtOrBelow(upperNs: number): number {
+    let seen = 0;
+    for (let i = 0; i < BUCKET_COUNT; i++) {
+      const [, upper] = bucketBounds(i);
+      if (upper > upperNs) break;
+      seen += this.counts[i];
+    }
+    return seen;
+  }
+
+  /**
+   * Non-empty buckets in ascending order
+   */
+  buckets(): HistogramBucket[] {
+    const result: HistogramBucket[] = [];
+    this.counts.forEach((count, i) => {
+      if (count === 0) return;
+      const [lower, upper] = bucketBounds(i);
+      result.push({ lower_ns: lower, upper_ns: upper, count });
+    });
+    return result;
+  }
+
+  reset() {
+    this.counts.fill(0);
+    this.total = 0;
+    this.sum = 0;
+    this.min = Infinity;
+    this.max = 0;
+  }
+}
@@ -2,6 +2,21 @@ import express from "express";
 import { createServer } from "http";
 import path from "path";
 import { fileURLToPath } from "url";
+import { PriceAlertEngine } from "./alerts";
+import { BenchmarkRunner } from "./benchmark";
+import { BenchmarkHistory, resolveGitCommit } from "./benchmarkHistory";
+import { CacheSnapshotter } from "./cacheSnapshot";
+import { CandleStore } from "./candles";
+import { CircuitBreaker } from "./circuitBreaker";
+import { config } from "./config";
+import { renderMetrics } from "./metrics";
+import { isEvictionPolicy, PriceCache } from "./priceCache";
+import { createProvider } from "./providers";
+import { RefreshScheduler } from "./refreshScheduler";
+import { createApiRouter } from "./routes";
+import { SloMonitor } from "./slo";
+import { UpstreamBudget } from "./upstreamBudget";
+import { StreamServer } from "./websocket";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -10,6 +25,121 @@ async function startServer() {
   const app = express();
   const server = createServer(app);
 
+  const provider = await createProvider(config.provider);
+  const breaker = new CircuitBreaker(provider.name, config.circuitBreaker);
+  const evictionPolicy = config.cacheEvictionPolicy.toLowerCase();
+  if (!isEvictionPolicy(evictionPolicy)) {
+    throw new Error(
+      `CACHE_EVICTION_POLICY must be lru, lfu or ttl, got "${config.cacheEvictionPolicy}"`,
+    );
+  }
+  const budget =
+    config.upstreamBudgetPerSecond > 0
+      ? new UpstreamBudget(config.upstreamBudgetPerSecond)
+      : undefined;
+  const cache = new PriceCache({
+    symbols: config.symbols,
+    softTtlMs: config.cacheSoftTtlMs,
+    hardTtlMs: config.cacheHardTtlMs,
+    provider,
+    breaker,
+    budget,
+    maxEntries: config.cacheMaxEntries,
+    maxBytes: config.cacheMaxBytes,
+    evictionPolicy,
+  });
+
+  // Start warm from the last snapshot, and keep writing new ones
+  const snapshots = new CacheSnapshotter({
+    cache,
+    file: config.cacheSnapshotFile,
+    intervalMs: config.cacheSnapshotIntervalMs,
+  });
+  const restored = await snapshots.restore();
+  if (restored > 0) {
+    console.log(`Restored ${restored} cached quotes from snapshot`);
+  }
+  snapshots.start();
+
+  const { enabled: schedulerEnabled, ...schedule } = config.refreshScheduler;
+  const scheduler = new RefreshScheduler({
+    cache,
+    budget,
+    ...schedule,
+  });
+  if (schedulerEnabled) scheduler.start();
+
+  const retention = config.historyRetentionSeconds;
+  const candles = new CandleStore({
+    "1s": retention["1s"] * 1000,
+    "1m": retention["1m"] * 1000,
+    "5m": retention["5m"] * 1000,
+    "1h": retention["1h"] * 1000,
+  });
+  cache.onQuote((quote) => candles.record(quote));
+
+  const alerts = new PriceAlertEngine({
+    file: config.alertRulesFile,
+    webhookUrl: config.alertWebhookUrl,
+  });
+  await alerts.load();
+  cache.onQuote((quote) => alerts.evaluate(quote));
+
+  const slo = new SloMonitor({
+    cache,
+    breaker,
+    thresholds: config.slo,
+    evaluateIntervalMs: config.sloEvaluateIntervalMs,
+  });
+
+  const benchmarkHistory = new BenchmarkHistory(config.benchmarkHistoryFile);
+  await benchmarkHistory.load();
+  const benchmarks = new BenchmarkRunner({
+    cache,
+    history: benchmarkHistory,
+    gitCommit: await resolveGitCommit(),
+    baseUrl: () => `http://127.0.0.1:${config.port}`,
+  });
+
+  // Let dashboards served from other origins switch to this backend
+  if (config.corsOrigins.length > 0) {
+    app.use("/api", allowOrigins(config.corsOrigins));
+  }
+
+  // Price cache API, also reachable through the Vite dev proxy at /api
+  app.use(
+    "/api",
+    createApiRouter({
+      cache,
+      breaker,
+      benchmarks,
+      candles,
+      alerts,
+      slo,
+      scheduler,
+    }),
+  );
+
+  const streams = new StreamServer(
+    { cache, breaker },
+    {
+      basePath: "/api",
+      statsIntervalMs: config.statsIntervalMs,
+      priceIntervalMs: config.priceIntervalMs,
+    },
+  );
+  streams.attach(server);
+  alerts.on("alert", (event) => streams.publishAlert(event));
+  slo.on("alert", (alert) => streams.publishSloAlert(alert));
+  slo.start();
+
+  // Prometheus scrape endpoint, at the conventional path outside /api
+  app.get("/metrics", (_req, res) => {
+    res
+      .type("text/plain; version=0.0.4; charset=utf-8")
+      .send(renderMetrics({ cache, breaker, streams }));
+  });
+
   // Serve static files from dist/public in production
   const staticPath =
     process.env.NODE_ENV === "production"
@@ -23,11 +153,50 @@ async function startServer() {
     res.sendFile(path.join(staticPath, "index.html"));
   });
 
-  const port = process.env.PORT || 3000;
+  const port = config.port;
 
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
   });
+
+  // Save the cache before exiting so the next process starts warm
+  const shutdown = async (signal: NodeJS.Signals) => {
+    console.log(`${signal} received, saving cache snapshot`);
+    scheduler.stop();
+    snapshots.stop();
+    try {
+      await snapshots.save();
+    } catch (error) {
+      console.error("Failed to write cache snapshot:", error);
+    }
+    process.exit(0);
+  };
+  process.once("SIGTERM", shutdown);
+  process.once("SIGINT", shutdown);
+}
+
+/**
+ * CORS for the API: echo allowed origins back and answer preflights
+ */
+function allowOrigins(origins: string[]): express.RequestHandler {
+  const any = origins.includes("*");
+  return (req, res, next) => {
+    const origin = req.headers.origin;
+    if (origin && (any || origins.includes(origin))) {
+      res.setHeader("Access-Control-Allow-Origin", any ? "*" : origin);
+      res.setHeader("Vary", "Origin");
+      res.setHeader(
+        "Access-Control-Allow-Methods",
+        "GET, POST, PUT, DELETE, OPTIONS",
+      );
+      res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    }
+    if (req.method === "OPTIONS") {
+      res.sendStatus(204);
+      return;
+    }
+    next();
+  };
 }
 
 startServer().catch(console.error);
@@ -0,0 +1,182 @@
+import { describe, expect, it } from "vitest";
+import { CircuitBreaker } from "./circuitBreaker";
+import { renderMetrics } from "./metrics";
+import { PriceCache } from "./priceCache";
+import type { PriceProvider } from "./providers";
+import type { StreamServer } from "./websocket";
+
+interface Sample {
+  name: string;
+  labels: Record<string, string>;
+  value: number;
+}
+
+interface Scrape {
+  types: Map<string, string>;
+  samples: Sample[];
+}
+
+const SAMPLE_LINE = /^([a-zA-Z_:][a-zA-Z0-9_:]*)(?:\{(.*)\})? (\S+)$/;
+const LABEL_PAIR = /([a-zA-Z_][a-zA-Z0-9_]*)="((?:[^"\\]|\\.)*)"(?:,|$)/g;
+
+/**
+ * Parse Prometheus text exposition the way a scraper would, failing on any
+ * line it doesn't understand
+ */
+function parseExposition(text: string): Scrape {
+  const types = new Map<string, string>();
+  const samples: Sample[] = [];
+  text
+    .split("\n")
+    .filter((line) => line !== "")
+    .forEach((line) => {
+      if (line.startsWith("# HELP ")) return;
+      if (line.startsWith("# TYPE ")) {
+        const [name, type] = line.slice("# TYPE ".length).split(" ");
+        types.set(name, type);
+        return;
+      }
+      const match = SAMPLE_LINE.exec(line);
+      if (!match) throw new Error(`Unparseable line: ${line}`);
+      const [, name, rawLabels = "", rawValue] = match;
+      const labels: Record<string, string> = {};
+      let consumed = 0;
+      for (const pair of rawLabels.matchAll(LABEL_PAIR)) {
+        labels[pair[1]] = pair[2].replace(/\\(.)/g, (_, c) =>
+          c === "n" ? "\n" : c,
+        );
+        consumed += pair[0].length;
+      }
+      if (consumed !== rawLabels.length) {
+        throw new Error(`Unparseable labels: ${line}`);
+      }
+      const value = rawValue === "+Inf" ? Infinity : Number(rawValue);
+      if (Number.isNaN(value)) throw new Error(`Bad value: ${line}`);
+      samples.push({ name, labels, value });
+    });
+  return { types, samples };
+}
+
+const provider: PriceProvider = {
+  name: "stub",
+  async getQuote(symbol) {
+    return {
+      symbol,
+      price: 100,
+      bid: 99.99,
+      ask: 100.01,
+      volume: 1,
+      timestamp: Date.now(),
+      source: "stub",
+    };
+  },
+};
+
+const streams = { clientCount: () => 2 } as unknown as StreamServer;
+
+async function scrape(): Promise<Scrape> {
+  const breaker = new CircuitBreaker("upstream", {
+    failureThreshold: 5,
+    successThreshold: 2,
+    timeoutSeconds: 60,
+    halfOpenMaxCalls: 3,
+  });
+  const cache = new PriceCache({
+    symbols: ["AAPL", "MSFT"],
+    softTtlMs: 20,
+    hardTtlMs: 30000,
+    provider,
+    breaker,
+  });
+
+  // AAPL: one miss, two hits, then one stale hit once the soft TTL passes
+  await cache.get("AAPL");
+  await cache.get("AAPL");
+  await cache.get("AAPL");
+  await new Promise((resolve) => setTimeout(resolve, 30));
+  await cache.get("AAPL");
+  // MSFT: a single miss
+  await cache.get("MSFT");
+
+  return parseExposition(renderMetrics({ cache, breaker, streams }));
+}
+
+const valueOf = (
+  { samples }: Scrape,
+  name: string,
+  labels: Record<string, string>,
+) =>
+  samples.find(
+    (sample) =>
+      sample.name === name &&
+      Object.entries(labels).every(
+        ([key, value]) => sample.labels[key] === value,
+      ),
+  )?.value;
+
+describe("renderMetrics", () => {
+  it("reports hit, stale and miss reads per symbol", async () => {
+    const result = await scrape();
+    const requests = "price_cache_requests_total";
+
+    expect(result.types.get(requests)).toBe("counter");
+    expect(valueOf(result, requests, { symbol: "AAPL", result: "hit" })).toBe(
+      2,
+    );
+    expect(valueOf(result, requests, { symbol: "AAPL", result: "stale" })).toBe(
+      1,
+    );
+    expect(valueOf(result, requests, { symbol: "AAPL", result: "miss" })).toBe(
+      1,
+    );
+    expect(valueOf(result, requests, { symbol: "MSFT", result: "hit" })).toBe(
+      0,
+    );
+    expect(valueOf(result, requests, { symbol: "MSFT", result: "miss" })).toBe(
+      1,
+    );
+  });
+
+  it("emits cumulative histogram buckets ending at +Inf equal to _count", async () => {
+    const result = await scrape();
+    const histograms = [...result.types]
+      .filter(([, type]) => type === "histogram")
+      .map(([name]) => name);
+    expect(histograms).toContain("price_cache_lookup_duration_seconds");
+
+    histograms.forEach((name) => {
+      const buckets = result.samples.filter(
+        (sample) => sample.name === `${name}_bucket`,
+      );
+      const bounds = buckets.map((bucket) => Number(bucket.labels.le));
+      expect(bounds).toEqual([...bounds].sort((a, b) => a - b));
+      buckets.slice(1).forEach((bucket, i) => {
+        expect(bucket.value).toBeGreaterThanOrEqual(buckets[i].value);
+      });
+
+      const last = buckets[buckets.length - 1];
+      expect(last.labels.le).toBe("+Inf");
+      expect(last.value).toBe(valueOf(result, `${name}_count`, {}));
+    });
+    expect(
+      valueOf(result, "price_cache_lookup_duration_seconds_count", {}),
+    ).toBe(5);
+  });
+
+  it("sets exactly one circuit breaker state gauge", async () => {
+    const result = await scrape();
+    const states = result.samples.filter(
+      (sample) => sample.name === "price_cache_circuit_breaker_state",
+    );
+
+    expect(states).toHaveLength(3);
+    expect(states.filter((state) => state.value === 1)).toEqual([
+      expect.objectContaining({
+        labels: { breaker: "upstream", state: "closed" },
+      }),
+    ]);
+    expect(
+      states.every((state) => state.value === 0 || state.value === 1),
+    ).toBe(true);
+  });
+});
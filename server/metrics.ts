@@ -0,0 +1,192 @@
+import type { CircuitState } from "@shared/types";
+import type { CircuitBreaker } from "./circuitBreaker";
+import type { LatencyHistogram } from "./histogram";
+import type { PriceCache } from "./priceCache";
+import type { StreamServer } from "./websocket";
+
+export interface MetricsSources {
+  cache: PriceCache;
+  breaker: CircuitBreaker;
+  streams: StreamServer;
+}
+
+type Labels = Record<string, string>;
+
+const CIRCUIT_STATES: CircuitState[] = ["closed", "open", "half_open"];
+
+/** Histogram `le` boundaries in seconds, from 1µs to 10s */
+const LATENCY_BUCKETS_SECONDS = [
+  1e-6, 2.5e-6, 5e-6, 1e-5, 2.5e-5, 5e-5, 1e-4, 2.5e-4, 5e-4, 1e-3, 2.5e-3,
+  5e-3, 1e-2, 2.5e-2, 5e-2, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${escapeLabel(value)}"`,
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/**
+ * Minimal builder for the Prometheus text exposition format (0.0.4)
+ */
+class ExpositionWriter {
+  private readonly lines: string[] = [];
+
+  family(name: string, type: "counter" | "gauge" | "histogram", help: string) {
+    this.lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+  }
+
+  sample(name: string, labels: Labels, value: number) {
+    this.lines.push(`${name}${formatLabels(labels)} ${value}`);
+  }
+
+  /**
+   * Emit a histogram family from nanosecond samples, in seconds
+   */
+  histogram(name: string, help: string, histogram: LatencyHistogram) {
+    this.family(name, "histogram", help);
+    LATENCY_BUCKETS_SECONDS.forEach((le) => {
+      this.sample(
+        `${name}_bucket`,
+        { le: String(le) },
+        histogram.countAtOrBelow(le * 1e9),
+      );
+    });
+    this.sample(`${name}_bucket`, { le: "+Inf" }, histogram.count());
+    this.sample(`${name}_sum`, {}, histogram.sumValue() / 1e9);
+    this.sample(`${name}_count`, {}, histogram.count());
+  }
+
+  toString(): string {
+    return this.lines.join("\n") + "\n";
+  }
+}
+
+/**
+ * Render every cache, circuit breaker and stream metric for a Prometheus scrape
+ */
+export function renderMetrics({
+  cache,
+  breaker,
+  streams,
+}: MetricsSources): string {
+  const out = new ExpositionWriter();
+  const counters = cache.symbolCounters();
+
+  out.family(
+    "price_cache_requests_total",
+    "counter",
+    "Cache reads by symbol and result (hit, stale or miss)",
+  );
+  counters.forEach(([symbol, c]) => {
+    out.sample("price_cache_requests_total", { symbol, result: "hit" }, c.hits);
+    out.sample(
+      "price_cache_requests_total",
+      { symbol, result: "stale" },
+      c.staleHits,
+    );
+    out.sample(
+      "price_cache_requests_total",
+      { symbol, result: "miss" },
+      c.misses,
+    );
+  });
+
+  out.family(
+    "price_cache_refresh_errors_total",
+    "counter",
+    "Failed upstream refreshes by symbol, including circuit breaker rejections",
+  );
+  counters.forEach(([symbol, c]) => {
+    out.sample("price_cache_refresh_errors_total", { symbol }, c.refreshErrors);
+  });
+
+  out.family(
+    "price_cache_coalesced_requests_total",
+    "counter",
+    "Misses by symbol that waited on another miss's upstream fetch",
+  );
+  counters.forEach(([symbol, c]) => {
+    out.sample("price_cache_coalesced_requests_total", { symbol }, c.coalesced);
+  });
+
+  out.family(
+    "price_cache_entries",
+    "gauge",
+    "Quotes currently held in the cache",
+  );
+  out.sample("price_cache_entries", {}, cache.size());
+
+  const eviction = cache.eviction();
+  out.family(
+    "price_cache_evictions_total",
+    "counter",
+    "Entries evicted to stay within capacity, by the policy that chose them",
+  );
+  Object.entries(eviction.evictions_by_policy).forEach(([policy, count]) => {
+    out.sample("price_cache_evictions_total", { policy }, count);
+  });
+
+  out.histogram(
+    "price_cache_lookup_duration_seconds",
+    "Time to serve a cache read, including upstream fetches on a miss",
+    cache.lookupLatency,
+  );
+  out.histogram(
+    "price_cache_upstream_request_duration_seconds",
+    "Time spent in calls to the upstream price provider",
+    cache.upstreamLatency,
+  );
+
+  const cb = breaker.metrics();
+  out.family(
+    "price_cache_circuit_breaker_state",
+    "gauge",
+    "1 for the circuit breaker's current state, 0 for the others",
+  );
+  CIRCUIT_STATES.forEach((state) => {
+    out.sample(
+      "price_cache_circuit_breaker_state",
+      { breaker: cb.name, state },
+      cb.state === state ? 1 : 0,
+    );
+  });
+
+  out.family(
+    "price_cache_circuit_breaker_calls_total",
+    "counter",
+    "Upstream calls seen by the circuit breaker by result",
+  );
+  out.sample(
+    "price_cache_circuit_breaker_calls_total",
+    { breaker: cb.name, result: "success" },
+    cb.successful_calls,
+  );
+  out.sample(
+    "price_cache_circuit_breaker_calls_total",
+    { breaker: cb.name, result: "failure" },
+    cb.failed_calls,
+  );
+  out.sample(
+    "price_cache_circuit_breaker_calls_total",
+    { breaker: cb.name, result: "rejected" },
+    cb.rejected_calls,
+  );
+
+  out.family(
+    "price_cache_websocket_clients",
+    "gauge",
+    "Connected WebSocket clients",
+  );
+  out.sample("price_cache_websocket_clients", {}, streams.clientCount());
+
+  return out.toString();
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { PriceCache } from "./priceCache";
+import type { PriceProvider, Quote } from "./providers";
+
+/**
+ * Provider that counts upstream calls and answers after a delay, so
+ * concurrent misses overlap the same fetch
+ */
+function countingProvider(delayMs = 20, fail = false) {
+  const provider = {
+    name: "stub",
+    calls: 0,
+    async getQuote(symbol: string): Promise<Quote> {
+      provider.calls++;
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      if (fail) throw new Error("upstream down");
+      return {
+        symbol,
+        price: 100,
+        bid: 99.99,
+        ask: 100.01,
+        volume: 1,
+        timestamp: Date.now(),
+        source: "stub",
+      };
+    },
+  };
+  return provider satisfies PriceProvider;
+}
+
+const cacheFor = (provider: PriceProvider) =>
+  new PriceCache({
+    symbols: ["AAPL"],
+    softTtlMs: 2000,
+    hardTtlMs: 30000,
+    provider,
+  });
+
+describe("PriceCache single-flight", () => {
+  it("coalesces 100 concurrent misses onto one upstream call", async () => {
+    const provider = countingProvider();
+    const cache = cacheFor(provider);
+
+    const results = await Promise.all(
+      Array.from({ length: 100 }, () => cache.get("AAPL", "price")),
+    );
+
+    expect(provider.calls).toBe(1);
+    expect(results.every((result) => result.price === 100)).toBe(true);
+    const stats = cache.stats();
+    expect(stats.cache_misses).toBe(100);
+    expect(stats.coalesced_requests).toBe(99);
+  });
+
+  it("shares one failed fetch with every waiting miss", async () => {
+    const provider = countingProvider(20, true);
+    const cache = cacheFor(provider);
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 100 }, () => cache.get("AAPL")),
+    );
+
+    expect(provider.calls).toBe(1);
+    expect(results.every((result) => result.status === "rejected")).toBe(true);
+  });
+
+  it("fetches again once the previous flight has landed", async () => {
+    const provider = countingProvider();
+    const cache = cacheFor(provider);
+
+    await cache.get("AAPL");
+    await cache.refresh("AAPL");
+
+    expect(provider.calls).toBe(2);
+  });
+});
+
+describe("PriceCache benchmark reads", () => {
+  it("count only towards the benchmark route", async () => {
+    const cache = cacheFor(countingProvider(0));
+    await cache.get("AAPL", "price");
+
+    await Promise.all(
+      Array.from({ length: 50 }, () => cache.get("AAPL", "benchmark")),
+    );
+
+    const stats = cache.stats();
+    expect(stats.total_requests).toBe(1);
+    expect(stats.cache_hits).toBe(0);
+    expect(cache.lookupLatency.count()).toBe(1);
+    expect(cache.readCount("AAPL")).toBe(1);
+    const benchmark = cache
+      .routeStats()
+      .find((route) => route.route === "benchmark");
+    expect(benchmark?.cache_hits).toBe(50);
+  });
+});
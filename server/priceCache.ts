@@ -0,0 +1,811 @@
+import type {
+  CacheStats,
+  EvictionConfigInput,
+  EvictionPolicy,
+  EvictionStatus,
+  Freshness,
+  HealthStatus,
+  OrderBook,
+  PriceData,
+  ReadRoute,
+  ReadStats,
+  RouteStats,
+  SymbolStats,
+  UpstreamError,
+} from "@shared/types";
+import type { CircuitBreaker } from "./circuitBreaker";
+import { LatencyHistogram } from "./histogram";
+import type { PriceProvider, Quote } from "./providers";
+import type { UpstreamBudget } from "./upstreamBudget";
+
+export interface PriceCacheOptions {
+  symbols: string[];
+  /** Age after which an entry is served stale and refreshed in the background */
+  softTtlMs: number;
+  /** Age after which an entry must be refetched before it is served */
+  hardTtlMs: number;
+  provider: PriceProvider;
+  /** Guards every upstream call when set */
+  breaker?: CircuitBreaker;
+  /** Rate limit shared by every upstream call; unset is unlimited */
+  budget?: UpstreamBudget;
+  /** Capacity limits; 0 or unset is unlimited */
+  maxEntries?: number;
+  maxBytes?: number;
+  evictionPolicy?: EvictionPolicy;
+}
+
+export interface SymbolCounters {
+  hits: number;
+  staleHits: number;
+  misses: number;
+  refreshes: number;
+  refreshErrors: number;
+  /** Misses that joined a fetch already in flight instead of starting one */
+  coalesced: number;
+}
+
+interface RouteRecord {
+  counters: SymbolCounters;
+  latency: LatencyHistogram;
+  lastError: UpstreamError | null;
+}
+
+interface CacheEntry {
+  quote: Quote;
+  storedAt: number;
+  softTtlMs: number;
+  hardTtlMs: number;
+  /** Serialized size of the quote, counted against `maxBytes` */
+  bytes: number;
+  lastReadAt: number;
+  reads: number;
+}
+
+/**
+ * Cached quotes and counters as written to disk. `stored_at` keeps each
+ * quote's original fetch time, so a restored entry is fresh, stale or expired
+ * by how long ago it was really fetched.
+ */
+export interface CacheSnapshot {
+  version: 1;
+  /** Epoch milliseconds */
+  saved_at: number;
+  entries: { quote: Quote; stored_at: number }[];
+  counters: Record<string, SymbolCounters>;
+}
+
+interface WarmStart {
+  /** Epoch milliseconds the snapshot was written and restored */
+  savedAt: number;
+  restoredAt: number;
+  entries: number;
+}
+
+/** Counter totals when the current eviction policy took effect */
+interface PolicyBaseline {
+  since: number;
+  served: number;
+  total: number;
+}
+
+export const EVICTION_POLICIES: EvictionPolicy[] = ["lru", "lfu", "ttl"];
+
+export function isEvictionPolicy(value: unknown): value is EvictionPolicy {
+  return EVICTION_POLICIES.includes(value as EvictionPolicy);
+}
+
+/**
+ * Thrown when a symbol outside the tracked universe is requested
+ */
+export class UnknownSymbolError extends Error {
+  constructor(public readonly symbol: string) {
+    super(`Symbol ${symbol} is not tracked`);
+    this.name = "UnknownSymbolError";
+  }
+}
+
+const elapsedNs = (start: bigint) => Number(process.hrtime.bigint() - start);
+
+/** Failed upstream fetches kept per symbol */
+const MAX_UPSTREAM_ERRORS = 20;
+
+const emptyCounters = (): SymbolCounters => ({
+  hits: 0,
+  staleHits: 0,
+  misses: 0,
+  refreshes: 0,
+  refreshErrors: 0,
+  coalesced: 0,
+});
+
+const quoteBytes = (quote: Quote) => Buffer.byteLength(JSON.stringify(quote));
+
+function freshnessOf(entry: CacheEntry, now: number): Freshness {
+  const age = now - entry.storedAt;
+  if (age < entry.softTtlMs) return "fresh";
+  if (age < entry.hardTtlMs) return "stale";
+  return "expired";
+}
+
+/**
+ * In-process stale-while-revalidate cache for upstream quotes.
+ * Fresh entries are served from memory, stale entries are served from memory
+ * while a background refresh runs, and expired or missing entries are fetched
+ * from upstream before being returned. If that fetch fails the expired entry
+ * is still served rather than failing the read.
+ */
+export class PriceCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly symbols: Set<string>;
+  /** Upstream fetch in flight per symbol, shared by every miss on it */
+  private readonly inflight = new Map<string, Promise<CacheEntry>>();
+  private readonly counters = new Map<string, SymbolCounters>();
+  private readonly symbolLatency = new Map<string, LatencyHistogram>();
+  private readonly upstreamErrors = new Map<string, UpstreamError[]>();
+  private readonly routes = new Map<ReadRoute, RouteRecord>();
+  private readonly quoteListeners = new Set<(quote: Quote) => void>();
+  private warmStart: WarmStart | null = null;
+  private bytes = 0;
+  private evictionPolicy: EvictionPolicy;
+  private maxEntries: number;
+  private maxBytes: number;
+  private readonly evictions: Record<EvictionPolicy, number> = {
+    lru: 0,
+    lfu: 0,
+    ttl: 0,
+  };
+  private policyBaseline: PolicyBaseline = {
+    since: Date.now(),
+    served: 0,
+    total: 0,
+  };
+  /** Duration of every read, hit or miss */
+  readonly lookupLatency = new LatencyHistogram();
+  /** Duration of every call that reached the upstream provider */
+  readonly upstreamLatency = new LatencyHistogram();
+
+  constructor(private readonly options: PriceCacheOptions) {
+    this.symbols = new Set(options.symbols.map((s) => s.toUpperCase()));
+    this.evictionPolicy = options.evictionPolicy ?? "lru";
+    this.maxEntries = options.maxEntries ?? 0;
+    this.maxBytes = options.maxBytes ?? 0;
+  }
+
+  getSymbols(): string[] {
+    return Array.from(this.symbols);
+  }
+
+  has(symbol: string): boolean {
+    return this.symbols.has(symbol.toUpperCase());
+  }
+
+  /**
+   * Whether a quote for the symbol is held, however old. False for tracked
+   * symbols not read yet or evicted to stay within capacity.
+   */
+  isCached(symbol: string): boolean {
+    return this.entries.has(symbol.toUpperCase());
+  }
+
+  /**
+   * Start tracking a symbol. Returns false if it was already tracked.
+   */
+  addSymbol(symbol: string): boolean {
+    const key = symbol.toUpperCase();
+    if (this.symbols.has(key)) return false;
+    this.symbols.add(key);
+    return true;
+  }
+
+  /**
+   * Stop tracking a symbol and drop its cached quote.
+   * Returns false if it was not tracked.
+   */
+  removeSymbol(symbol: string): boolean {
+    const key = symbol.toUpperCase();
+    if (!this.symbols.delete(key)) return false;
+    this.dropEntry(key);
+    return true;
+  }
+
+  /**
+   * Look up a symbol, refreshing it from upstream on a miss. `route` is
+   * where the read came from, for the per-route stats.
+   */
+  async get(symbol: string, route: ReadRoute = "internal"): Promise<PriceData> {
+    const key = symbol.toUpperCase();
+    if (!this.symbols.has(key)) {
+      throw new UnknownSymbolError(key);
+    }
+
+    const start = process.hrtime.bigint();
+    // Benchmark reads stay out of the per-symbol and overall stats, eviction
+    // order and read counts, so a run doesn't make its symbols look hot
+    const live = route !== "benchmark";
+    const counters = live ? this.countersFor(key) : emptyCounters();
+    const routeCounters = this.routeFor(route).counters;
+    const entry = this.entries.get(key);
+    const now = Date.now();
+    const freshness = entry ? freshnessOf(entry, now) : "expired";
+
+    if (entry && live) {
+      entry.lastReadAt = now;
+      entry.reads++;
+    }
+
+    if (entry && freshness !== "expired") {
+      const latencyNs = elapsedNs(start);
+      if (freshness === "fresh") {
+        counters.hits++;
+        routeCounters.hits++;
+      } else {
+        counters.staleHits++;
+        routeCounters.staleHits++;
+        this.revalidate(key, route);
+      }
+      this.recordLookup(key, route, latencyNs);
+      return toPriceData(entry, freshness, now, latencyNs);
+    }
+
+    counters.misses++;
+    routeCounters.misses++;
+    const shared = this.inflight.get(key);
+    if (shared) {
+      counters.coalesced++;
+      routeCounters.coalesced++;
+    }
+    let served: CacheEntry;
+    try {
+      served = await (shared ?? this.fetchOnce(key, route));
+    } catch (error) {
+      if (!entry) throw error;
+      served = entry;
+    }
+    const latencyNs = elapsedNs(start);
+    this.recordLookup(key, route, latencyNs);
+    const servedAt = Date.now();
+    return toPriceData(
+      served,
+      freshnessOf(served, servedAt),
+      servedAt,
+      latencyNs,
+    );
+  }
+
+  /**
+   * Look up a symbol's order book, with the same freshness rules as `get`.
+   * Resolves to null when the provider doesn't supply depth.
+   */
+  async getBook(
+    symbol: string,
+    route: ReadRoute = "book",
+  ): Promise<OrderBook | null> {
+    const price = await this.get(symbol, route);
+    const quote = this.entries.get(price.symbol)?.quote;
+    if (!quote?.book) return null;
+    return {
+      symbol: price.symbol,
+      bids: quote.book.bids,
+      asks: quote.book.asks,
+      timestamp: new Date(quote.timestamp).toISOString(),
+      source: quote.source,
+      freshness: price.freshness,
+      age_ms: price.age_ms,
+    };
+  }
+
+  /**
+   * Look up every tracked symbol
+   */
+  async getAll(
+    route: ReadRoute = "prices",
+  ): Promise<Record<string, PriceData>> {
+    const symbols = this.getSymbols();
+    const prices = await Promise.all(symbols.map((s) => this.get(s, route)));
+    return Object.fromEntries(prices.map((p) => [p.symbol, p]));
+  }
+
+  /**
+   * Fetch a fresh quote from upstream and store it, counting the outcome
+   * against `route` when a read triggered it
+   */
+  async refresh(symbol: string, route?: ReadRoute): Promise<CacheEntry> {
+    try {
+      const quote = await this.callUpstream(symbol);
+      const now = Date.now();
+      const previous = this.entries.get(symbol);
+      const entry: CacheEntry = {
+        quote,
+        storedAt: now,
+        softTtlMs: this.options.softTtlMs,
+        hardTtlMs: this.options.hardTtlMs,
+        bytes: quoteBytes(quote),
+        lastReadAt: previous?.lastReadAt ?? now,
+        reads: previous?.reads ?? (route && route !== "benchmark" ? 1 : 0),
+      };
+      this.storeEntry(symbol, entry);
+      this.enforceCapacity(symbol);
+      this.countersFor(symbol).refreshes++;
+      if (route) this.routeFor(route).counters.refreshes++;
+      this.quoteListeners.forEach((listener) => listener(quote));
+      return entry;
+    } catch (error) {
+      const upstreamError: UpstreamError = {
+        time: Date.now() / 1000,
+        message: error instanceof Error ? error.message : String(error),
+      };
+      this.countersFor(symbol).refreshErrors++;
+      const errors = this.upstreamErrors.get(symbol) ?? [];
+      errors.push(upstreamError);
+      this.upstreamErrors.set(symbol, errors.slice(-MAX_UPSTREAM_ERRORS));
+      if (route) {
+        const record = this.routeFor(route);
+        record.counters.refreshErrors++;
+        record.lastError = upstreamError;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Call upstream for a symbol without reading or storing the cache, to time
+   * what a miss costs. The call goes through the breaker and is charged to
+   * the budget like a read.
+   */
+  async fetchUncached(symbol: string): Promise<Quote> {
+    const key = symbol.toUpperCase();
+    if (!this.symbols.has(key)) {
+      throw new UnknownSymbolError(key);
+    }
+    this.options.budget?.charge();
+    return this.callUpstream(key);
+  }
+
+  private callUpstream(symbol: string): Promise<Quote> {
+    const { provider, breaker } = this.options;
+    const fetchQuote = async () => {
+      const started = process.hrtime.bigint();
+      try {
+        return await provider.getQuote(symbol);
+      } finally {
+        this.upstreamLatency.record(elapsedNs(started));
+      }
+    };
+    return breaker ? breaker.execute(fetchQuote) : fetchQuote();
+  }
+
+  /**
+   * Call `listener` with every quote fetched from upstream.
+   * Returns a function that removes the listener.
+   */
+  onQuote(listener: (quote: Quote) => void): () => void {
+    this.quoteListeners.add(listener);
+    return () => this.quoteListeners.delete(listener);
+  }
+
+  /**
+   * Refresh a symbol, registering the fetch so concurrent misses and
+   * revalidations wait on it instead of calling upstream again. Reads are
+   * charged to the budget here; background callers have already taken a
+   * token and pass `charge` false.
+   */
+  private fetchOnce(
+    symbol: string,
+    route?: ReadRoute,
+    charge = true,
+  ): Promise<CacheEntry> {
+    if (charge) this.options.budget?.charge();
+    const fetch = this.refresh(symbol, route).finally(() =>
+      this.inflight.delete(symbol),
+    );
+    this.inflight.set(symbol, fetch);
+    return fetch;
+  }
+
+  /**
+   * Refresh a symbol ahead of any read, joining a fetch already in flight
+   * rather than starting a second one. Resolves false, without calling
+   * upstream, when the budget has no token to spare.
+   */
+  async prefetch(symbol: string): Promise<boolean> {
+    const key = symbol.toUpperCase();
+    if (!this.symbols.has(key)) {
+      throw new UnknownSymbolError(key);
+    }
+    const shared = this.inflight.get(key);
+    if (shared) {
+      await shared;
+      return true;
+    }
+    if (!this.takeBudget()) return false;
+    await this.fetchOnce(key, undefined, false);
+    return true;
+  }
+
+  /**
+   * Refresh a stale entry in the background, unless a fetch for it is
+   * already in flight or the budget is spent; the stale entry is served
+   * until a later read finds a token
+   */
+  private revalidate(symbol: string, route: ReadRoute) {
+    if (this.inflight.has(symbol) || !this.takeBudget()) return;
+    this.fetchOnce(symbol, route, false).catch(() => {
+      // Counted in failedRefreshes; the stale entry keeps being served
+    });
+  }
+
+  private takeBudget(): boolean {
+    return this.options.budget?.tryTake() ?? true;
+  }
+
+  private countersFor(symbol: string): SymbolCounters {
+    let counters = this.counters.get(symbol);
+    if (!counters) {
+      counters = emptyCounters();
+      this.counters.set(symbol, counters);
+    }
+    return counters;
+  }
+
+  private routeFor(route: ReadRoute): RouteRecord {
+    let record = this.routes.get(route);
+    if (!record) {
+      record = {
+        counters: emptyCounters(),
+        latency: new LatencyHistogram(),
+        lastError: null,
+      };
+      this.routes.set(route, record);
+    }
+    return record;
+  }
+
+  private recordLookup(symbol: string, route: ReadRoute, latencyNs: number) {
+    this.routeFor(route).latency.record(latencyNs);
+    if (route === "benchmark") return;
+    this.lookupLatency.record(latencyNs);
+    let histogram = this.symbolLatency.get(symbol);
+    if (!histogram) {
+      histogram = new LatencyHistogram();
+      this.symbolLatency.set(symbol, histogram);
+    }
+    histogram.record(latencyNs);
+  }
+
+  private storeEntry(symbol: string, entry: CacheEntry) {
+    this.dropEntry(symbol);
+    this.entries.set(symbol, entry);
+    this.bytes += entry.bytes;
+  }
+
+  private dropEntry(symbol: string) {
+    const entry = this.entries.get(symbol);
+    if (!entry) return;
+    this.entries.delete(symbol);
+    this.bytes -= entry.bytes;
+  }
+
+  private overCapacity(): boolean {
+    return (
+      (this.maxEntries > 0 && this.entries.size > this.maxEntries) ||
+      (this.maxBytes > 0 && this.bytes > this.maxBytes)
+    );
+  }
+
+  /**
+   * Evict entries until the cache is within its limits. `keep` is the entry
+   * just stored, which is never chosen, so a new quote can't be evicted
+   * before it has had a chance to be read.
+   */
+  private enforceCapacity(keep?: string) {
+    while (this.overCapacity()) {
+      const victim = this.pickVictim(keep);
+      if (!victim) return;
+      this.dropEntry(victim);
+      this.evictions[this.evictionPolicy]++;
+    }
+  }
+
+  private pickVictim(keep?: string): string | null {
+    let victim: string | null = null;
+    let worst: CacheEntry | null = null;
+    this.entries.forEach((entry, symbol) => {
+      if (symbol === keep) return;
+      if (!worst || this.evictsBefore(entry, worst)) {
+        victim = symbol;
+        worst = entry;
+      }
+    });
+    return victim;
+  }
+
+  /**
+   * Whether `a` should be evicted ahead of `b` under the current policy
+   */
+  private evictsBefore(a: CacheEntry, b: CacheEntry): boolean {
+    switch (this.evictionPolicy) {
+      case "lru":
+        return a.lastReadAt < b.lastReadAt;
+      case "lfu":
+        return a.reads !== b.reads
+          ? a.reads < b.reads
+          : a.lastReadAt < b.lastReadAt;
+      case "ttl":
+        return a.storedAt + a.hardTtlMs < b.storedAt + b.hardTtlMs;
+    }
+  }
+
+  /**
+   * Change the eviction policy or capacity limits and evict down to the new
+   * limits straight away. A new policy restarts the hit rate it is judged by.
+   */
+  configureEviction(input: EvictionConfigInput): EvictionStatus {
+    if (input.policy && input.policy !== this.evictionPolicy) {
+      const { hits, staleHits, misses } = this.totals();
+      this.evictionPolicy = input.policy;
+      this.policyBaseline = {
+        since: Date.now(),
+        served: hits + staleHits,
+        total: hits + staleHits + misses,
+      };
+    }
+    if (input.max_entries !== undefined) {
+      this.maxEntries = input.max_entries ?? 0;
+    }
+    if (input.max_bytes !== undefined) {
+      this.maxBytes = input.max_bytes ?? 0;
+    }
+    this.enforceCapacity();
+    return this.eviction();
+  }
+
+  eviction(): EvictionStatus {
+    const { hits, staleHits, misses } = this.totals();
+    const served = hits + staleHits - this.policyBaseline.served;
+    const total = hits + staleHits + misses - this.policyBaseline.total;
+    return {
+      policy: this.evictionPolicy,
+      max_entries: this.maxEntries > 0 ? this.maxEntries : null,
+      max_bytes: this.maxBytes > 0 ? this.maxBytes : null,
+      entries: this.entries.size,
+      bytes: this.bytes,
+      evictions: this.evictionCount(),
+      evictions_by_policy: { ...this.evictions },
+      policy_since: this.policyBaseline.since / 1000,
+      policy_requests: total,
+      policy_hit_rate_percent: total > 0 ? (served / total) * 100 : 0,
+    };
+  }
+
+  private evictionCount(): number {
+    return EVICTION_POLICIES.reduce((sum, p) => sum + this.evictions[p], 0);
+  }
+
+  /**
+   * Counters, lookup latency, last refresh and recent upstream errors for
+   * one tracked symbol
+   */
+  symbolStats(symbol: string): SymbolStats {
+    const key = symbol.toUpperCase();
+    if (!this.symbols.has(key)) {
+      throw new UnknownSymbolError(key);
+    }
+    const counters = this.counters.get(key) ?? emptyCounters();
+    const latency = this.symbolLatency.get(key) ?? new LatencyHistogram();
+    const entry = this.entries.get(key);
+    return {
+      symbol: key,
+      ...readStats(counters, latency),
+      last_refresh: entry ? entry.storedAt / 1000 : null,
+      freshness: entry ? freshnessOf(entry, Date.now()) : null,
+      upstream_errors: [...(this.upstreamErrors.get(key) ?? [])].reverse(),
+    };
+  }
+
+  /**
+   * Stats for every tracked symbol
+   */
+  allSymbolStats(): SymbolStats[] {
+    return this.getSymbols().map((symbol) => this.symbolStats(symbol));
+  }
+
+  /**
+   * Stats for every route that has read from the cache
+   */
+  routeStats(): RouteStats[] {
+    return Array.from(this.routes, ([route, record]) => ({
+      route,
+      ...readStats(record.counters, record.latency),
+      last_refresh_error: record.lastError,
+    }));
+  }
+
+  /**
+   * Reads of one symbol so far, hits and misses alike
+   */
+  readCount(symbol: string): number {
+    const c = this.counters.get(symbol.toUpperCase());
+    return c ? c.hits + c.staleHits + c.misses : 0;
+  }
+
+  /**
+   * Read counters for every symbol that has been requested
+   */
+  symbolCounters(): [string, SymbolCounters][] {
+    return Array.from(this.counters, ([symbol, c]) => [symbol, { ...c }]);
+  }
+
+  private totals(): SymbolCounters {
+    const totals = emptyCounters();
+    this.counters.forEach((c) => {
+      totals.hits += c.hits;
+      totals.staleHits += c.staleHits;
+      totals.misses += c.misses;
+      totals.refreshes += c.refreshes;
+      totals.coalesced += c.coalesced;
+      totals.refreshErrors += c.refreshErrors;
+    });
+    return totals;
+  }
+
+  stats(): CacheStats {
+    const { hits, staleHits, misses, refreshErrors, coalesced } = this.totals();
+    const served = hits + staleHits;
+    const total = served + misses;
+    return {
+      cache_hits: hits,
+      cache_misses: misses,
+      stale_hits: staleHits,
+      total_requests: total,
+      hit_rate_percent: total > 0 ? (served / total) * 100 : 0,
+      avg_latency_us: this.lookupLatency.mean() / 1000,
+      p50_latency_us: this.lookupLatency.percentile(50) / 1000,
+      p90_latency_us: this.lookupLatency.percentile(90) / 1000,
+      p95_latency_us: this.lookupLatency.percentile(95) / 1000,
+      p99_latency_us: this.lookupLatency.percentile(99) / 1000,
+      p999_latency_us: this.lookupLatency.percentile(99.9) / 1000,
+      max_latency_us: this.lookupLatency.maxValue() / 1000,
+      failed_refreshes: refreshErrors,
+      evictions: this.evictionCount(),
+      coalesced_requests: coalesced,
+      upstream_calls: this.upstreamLatency.count(),
+      avg_upstream_latency_us: this.upstreamLatency.mean() / 1000,
+    };
+  }
+
+  /**
+   * Copy of every cached entry and counter, for writing to disk
+   */
+  snapshot(): CacheSnapshot {
+    return {
+      version: 1,
+      saved_at: Date.now(),
+      entries: Array.from(this.entries.values(), (entry) => ({
+        quote: entry.quote,
+        stored_at: entry.storedAt,
+      })),
+      counters: Object.fromEntries(this.symbolCounters()),
+    };
+  }
+
+  /**
+   * Load a snapshot written by a previous process. Entries for symbols no
+   * longer tracked are skipped and entries already fetched by this process
+   * are kept. Expired entries are still restored: they are refetched on
+   * first read but can be served if upstream is down. Returns the number of
+   * entries restored.
+   */
+  restore(snapshot: CacheSnapshot): number {
+    let restored = 0;
+    snapshot.entries.forEach(({ quote, stored_at }) => {
+      const key = quote.symbol.toUpperCase();
+      if (!this.symbols.has(key) || this.entries.has(key)) return;
+      this.storeEntry(key, {
+        quote,
+        storedAt: stored_at,
+        softTtlMs: this.options.softTtlMs,
+        hardTtlMs: this.options.hardTtlMs,
+        bytes: quoteBytes(quote),
+        lastReadAt: stored_at,
+        reads: 0,
+      });
+      restored++;
+    });
+    this.enforceCapacity();
+    Object.entries(snapshot.counters).forEach(([symbol, saved]) => {
+      if (!this.symbols.has(symbol)) return;
+      const counters = this.countersFor(symbol);
+      counters.hits += saved.hits;
+      counters.staleHits += saved.staleHits;
+      counters.misses += saved.misses;
+      counters.refreshes += saved.refreshes ?? 0;
+      counters.coalesced += saved.coalesced ?? 0;
+      counters.refreshErrors += saved.refreshErrors;
+    });
+    this.warmStart = {
+      savedAt: snapshot.saved_at,
+      restoredAt: Date.now(),
+      entries: restored,
+    };
+    return restored;
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Age in seconds of the oldest cached entry
+   */
+  ageSeconds(): number {
+    let oldest = Infinity;
+    this.entries.forEach((entry) => {
+      oldest = Math.min(oldest, entry.storedAt);
+    });
+    return oldest === Infinity ? 0 : (Date.now() - oldest) / 1000;
+  }
+
+  health(): HealthStatus {
+    return {
+      status: "healthy",
+      timestamp: Date.now() / 1000,
+      cache_age_seconds: this.ageSeconds(),
+      cache_size: this.size(),
+      hit_rate: this.stats().hit_rate_percent,
+      upstream_errors: this.totals().refreshErrors,
+      warm_start: this.warmStart !== null,
+      snapshot_age_seconds: this.warmStart
+        ? (this.warmStart.restoredAt - this.warmStart.savedAt) / 1000
+        : null,
+      restored_entries: this.warmStart?.entries ?? 0,
+    };
+  }
+}
+
+function readStats(
+  counters: SymbolCounters,
+  latency: LatencyHistogram,
+): ReadStats {
+  const { hits, staleHits, misses, refreshes, refreshErrors, coalesced } =
+    counters;
+  const served = hits + staleHits;
+  const total = served + misses;
+  return {
+    cache_hits: hits,
+    stale_hits: staleHits,
+    cache_misses: misses,
+    total_requests: total,
+    hit_rate_percent: total > 0 ? (served / total) * 100 : 0,
+    refreshes,
+    refresh_errors: refreshErrors,
+    coalesced,
+    avg_latency_us: latency.mean() / 1000,
+    p50_latency_us: latency.percentile(50) / 1000,
+    p95_latency_us: latency.percentile(95) / 1000,
+    p99_latency_us: latency.percentile(99) / 1000,
+    max_latency_us: latency.maxValue() / 1000,
+  };
+}
+
+function toPriceData(
+  entry: CacheEntry,
+  freshness: Freshness,
+  now: number,
+  latencyNs: number,
+): PriceData {
+  const { quote } = entry;
+  return {
+    symbol: quote.symbol,
+    price: quote.price,
+    bid: quote.bid,
+    ask: quote.ask,
+    volume: quote.volume,
+    timestamp: new Date(quote.timestamp).toISOString(),
+    latency_ns: latencyNs,
+    latency_us: latencyNs / 1000,
+    source: quote.source,
+    freshness,
+    age_ms: now - entry.storedAt,
+  };
+}
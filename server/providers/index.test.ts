@@ -0,0 +1,49 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createProvider, type ProviderConfig } from "./index";
+
+const simulator = (simulatorConfigFile: string): ProviderConfig => ({
+  provider: "simulator",
+  seed: 42,
+  failureRate: 0,
+  bookDepth: 10,
+  simulatorConfigFile,
+  replaySpeed: 1,
+  replayLoop: true,
+});
+
+describe("createProvider", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "provider-"));
+    file = path.join(dir, "simulator.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it.each([0, -4, "fast"])(
+    "rejects a simulator tickRate of %j",
+    async (tickRate) => {
+      await writeFile(file, JSON.stringify({ AAPL: { tickRate } }));
+
+      await expect(createProvider(simulator(file))).rejects.toThrow(
+        `${file}: AAPL.tickRate must be a number greater than 0, got ${JSON.stringify(tickRate)}`,
+      );
+    },
+  );
+
+  it("quotes with a positive tickRate override", async () => {
+    await writeFile(file, JSON.stringify({ AAPL: { tickRate: 2 } }));
+
+    const provider = await createProvider(simulator(file));
+    const quote = await provider.getQuote("AAPL");
+
+    expect(Number.isFinite(quote.timestamp)).toBe(true);
+  });
+});
@@ -0,0 +1,73 @@
+import { readFile } from "fs/promises";
+import { ReplayProvider } from "./replay";
+import { SimulatorProvider, type SymbolSimulation } from "./simulator";
+import type { PriceProvider } from "./types";
+
+export type { Clock, PriceProvider, Quote } from "./types";
+export { ReplayProvider } from "./replay";
+export { SimulatorProvider } from "./simulator";
+
+export interface ProviderConfig {
+  provider: string;
+  seed: number;
+  failureRate: number;
+  bookDepth: number;
+  simulatorConfigFile?: string;
+  replayFile?: string;
+  replaySpeed: number;
+  replayLoop: boolean;
+}
+
+/**
+ * Quote timestamps are derived by dividing by the tick rate, so a rate at or
+ * below zero would break every read
+ */
+function checkTickRates(
+  file: string,
+  symbols: Record<string, Partial<SymbolSimulation>>,
+) {
+  Object.entries(symbols).forEach(([symbol, settings]) => {
+    const { tickRate } = settings;
+    if (tickRate === undefined) return;
+    if (typeof tickRate !== "number" || !(tickRate > 0)) {
+      throw new Error(
+        `${file}: ${symbol}.tickRate must be a number greater than 0, got ${JSON.stringify(tickRate)}`,
+      );
+    }
+  });
+}
+
+/**
+ * Build the upstream provider selected by configuration
+ */
+export async function createProvider(
+  config: ProviderConfig,
+): Promise<PriceProvider> {
+  switch (config.provider) {
+    case "simulator": {
+      let symbols: Record<string, Partial<SymbolSimulation>> | undefined;
+      if (config.simulatorConfigFile) {
+        symbols = JSON.parse(
+          await readFile(config.simulatorConfigFile, "utf8"),
+        );
+        checkTickRates(config.simulatorConfigFile, symbols ?? {});
+      }
+      return new SimulatorProvider({
+        seed: config.seed,
+        symbols,
+        failureRate: config.failureRate,
+        bookDepth: config.bookDepth,
+      });
+    }
+    case "replay":
+      if (!config.replayFile) {
+        throw new Error("REPLAY_FILE is required for the replay provider");
+      }
+      return ReplayProvider.fromFile(config.replayFile, {
+        speed: config.replaySpeed,
+        loop: config.replayLoop,
+      });
+    default:
+      throw new Error(`Unknown price provider "${config.provider}"`);
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseRecordedTicks,
+  ReplayProvider,
+  type RecordedTick,
+} from "./replay";
+
+describe("ReplayProvider", () => {
+  it("loads a recording too large to spread onto the call stack", async () => {
+    const ticks: RecordedTick[] = Array.from({ length: 200_000 }, (_, i) => ({
+      symbol: "AAPL",
+      price: 100 + (i % 10),
+      timestamp: 1_700_000_000_000 + i * 1000,
+    }));
+    let now = 0;
+    const provider = new ReplayProvider(ticks, {
+      clock: () => now,
+      loop: false,
+    });
+
+    now = 5000;
+    const quote = await provider.getQuote("AAPL");
+    expect(quote.price).toBe(105);
+    expect(quote.timestamp).toBe(5000);
+  });
+
+  it.each([0, -1])("rejects a playback speed of %d", (speed) => {
+    const ticks: RecordedTick[] = [
+      { symbol: "AAPL", price: 100, timestamp: 1_700_000_000_000 },
+    ];
+
+    expect(() => new ReplayProvider(ticks, { speed })).toThrow(
+      `Replay speed must be greater than 0, got ${speed}`,
+    );
+  });
+});
+
+describe("parseRecordedTicks", () => {
+  it("rejects a tick whose timestamp doesn't parse", () => {
+    const contents = [
+      '{"symbol":"AAPL","price":100,"timestamp":1700000000000}',
+      '{"symbol":"AAPL","price":101,"timestamp":"yesterday"}',
+    ].join("\n");
+
+    expect(() => parseRecordedTicks(contents, "ticks.jsonl")).toThrow(
+      "ticks.jsonl:2: invalid timestamp",
+    );
+  });
+});
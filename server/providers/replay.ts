@@ -0,0 +1,153 @@
+import { readFile } from "fs/promises";
+import type { Clock, PriceProvider, Quote } from "./types";
+
+/**
+ * One line of a recorded tick file (JSON lines).
+ * `bid`/`ask` default to `price` and `volume` to 0 when missing.
+ */
+export interface RecordedTick {
+  symbol: string;
+  price: number;
+  bid?: number;
+  ask?: number;
+  volume?: number;
+  /** Epoch milliseconds or an ISO-8601 string */
+  timestamp: number | string;
+}
+
+export interface ReplayOptions {
+  /** Playback speed multiplier, 2 replays twice as fast as recorded */
+  speed?: number;
+  /** Start over from the first tick once the recording ends */
+  loop?: boolean;
+  clock?: Clock;
+}
+
+interface ReplayTick {
+  offset: number;
+  quote: Omit<Quote, "timestamp" | "source">;
+}
+
+/**
+ * Parse a JSON lines recording, skipping blank lines
+ */
+export function parseRecordedTicks(
+  contents: string,
+  file = "recording",
+): RecordedTick[] {
+  const ticks: RecordedTick[] = [];
+  contents.split("\n").forEach((line, index) => {
+    if (!line.trim()) return;
+    let tick: RecordedTick;
+    try {
+      tick = JSON.parse(line);
+    } catch {
+      throw new Error(`${file}:${index + 1}: invalid JSON`);
+    }
+    if (typeof tick.symbol !== "string" || typeof tick.price !== "number") {
+      throw new Error(`${file}:${index + 1}: expected symbol and price`);
+    }
+    if (Number.isNaN(new Date(tick.timestamp).getTime())) {
+      throw new Error(`${file}:${index + 1}: invalid timestamp`);
+    }
+    ticks.push(tick);
+  });
+  return ticks;
+}
+
+/**
+ * Replays recorded ticks against the clock, preserving their original spacing
+ */
+export class ReplayProvider implements PriceProvider {
+  readonly name = "replay";
+  private readonly clock: Clock;
+  private readonly startedAt: number;
+  private readonly speed: number;
+  private readonly loop: boolean;
+  private readonly duration: number;
+  private readonly bySymbol = new Map<string, ReplayTick[]>();
+
+  static async fromFile(
+    file: string,
+    options: ReplayOptions = {},
+  ): Promise<ReplayProvider> {
+    const contents = await readFile(file, "utf8");
+    return new ReplayProvider(parseRecordedTicks(contents, file), options);
+  }
+
+  constructor(ticks: RecordedTick[], options: ReplayOptions = {}) {
+    if (ticks.length === 0) {
+      throw new Error("Replay recording contains no ticks");
+    }
+    this.clock = options.clock ?? Date.now;
+    this.startedAt = this.clock();
+    this.speed = options.speed ?? 1;
+    if (!(this.speed > 0)) {
+      throw new Error(`Replay speed must be greater than 0, got ${this.speed}`);
+    }
+    this.loop = options.loop ?? true;
+
+    // Looped rather than spread: recordings can outgrow the call stack
+    const times = ticks.map((tick) => new Date(tick.timestamp).getTime());
+    let first = Infinity;
+    let last = -Infinity;
+    times.forEach((time) => {
+      first = Math.min(first, time);
+      last = Math.max(last, time);
+    });
+    this.duration = last - first;
+
+    ticks.forEach((tick, i) => {
+      const symbol = tick.symbol.toUpperCase();
+      const list = this.bySymbol.get(symbol) ?? [];
+      list.push({
+        offset: times[i] - first,
+        quote: {
+          symbol,
+          price: tick.price,
+          bid: tick.bid ?? tick.price,
+          ask: tick.ask ?? tick.price,
+          volume: tick.volume ?? 0,
+        },
+      });
+      this.bySymbol.set(symbol, list);
+    });
+    this.bySymbol.forEach((list) => list.sort((a, b) => a.offset - b.offset));
+  }
+
+  symbols(): string[] {
+    return Array.from(this.bySymbol.keys());
+  }
+
+  async getQuote(symbol: string): Promise<Quote> {
+    const list = this.bySymbol.get(symbol);
+    if (!list) {
+      throw new Error(`No recorded ticks for ${symbol}`);
+    }
+
+    const elapsed = (this.clock() - this.startedAt) * this.speed;
+    let cycle = 0;
+    let position = Math.min(elapsed, this.duration);
+    if (this.loop && this.duration > 0) {
+      cycle = Math.floor(elapsed / this.duration);
+      position = elapsed % this.duration;
+    }
+
+    // Latest tick at or before the playback position
+    let low = 0;
+    let high = list.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (list[mid].offset <= position) low = mid;
+      else high = mid - 1;
+    }
+    const tick = list[low];
+
+    return {
+      ...tick.quote,
+      timestamp:
+        this.startedAt + (cycle * this.duration + tick.offset) / this.speed,
+      source: this.name,
+    };
+  }
+}
@@ -0,0 +1,218 @@
+import type { BookLevel } from "@shared/types";
+import type { Clock, PriceProvider, Quote } from "./types";
+
+export interface SymbolSimulation {
+  /** Price at tick zero */
+  basePrice: number;
+  /** Mean log return per tick */
+  drift: number;
+  /** Standard deviation of the log return per tick */
+  volatility: number;
+  /** Bid/ask spread in basis points of the mid price */
+  spreadBps: number;
+  /** Ticks generated per second */
+  tickRate: number;
+}
+
+export interface SimulatorOptions {
+  seed: number;
+  symbols?: Record<string, Partial<SymbolSimulation>>;
+  /** Fraction of quote requests that fail, for exercising the circuit breaker */
+  failureRate?: number;
+  /** Order book levels generated per side */
+  bookDepth?: number;
+  clock?: Clock;
+}
+
+interface WalkState {
+  random: () => number;
+  settings: SymbolSimulation;
+  tick: number;
+  price: number;
+  volume: number;
+}
+
+export const DEFAULT_SIMULATIONS: Record<string, SymbolSimulation> = {
+  AAPL: {
+    basePrice: 181.5,
+    drift: 0,
+    volatility: 0.0004,
+    spreadBps: 1,
+    tickRate: 4,
+  },
+  MSFT: {
+    basePrice: 445.0,
+    drift: 0,
+    volatility: 0.0003,
+    spreadBps: 1,
+    tickRate: 4,
+  },
+  GOOGL: {
+    basePrice: 140.0,
+    drift: 0,
+    volatility: 0.0005,
+    spreadBps: 1.5,
+    tickRate: 4,
+  },
+  AMZN: {
+    basePrice: 196.0,
+    drift: 0,
+    volatility: 0.0005,
+    spreadBps: 1.5,
+    tickRate: 4,
+  },
+  TSLA: {
+    basePrice: 242.0,
+    drift: 0,
+    volatility: 0.0012,
+    spreadBps: 3,
+    tickRate: 8,
+  },
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * FNV-1a hash, used to derive a stable per-symbol seed
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * mulberry32 PRNG returning floats in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sample via Box-Muller
+ */
+function gaussian(random: () => number): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Seeded geometric random walk per symbol.
+ * The walk advances one step per tick of wall-clock time since the provider
+ * was created, so the same seed and clock always yield the same quotes no
+ * matter how often or in which order symbols are requested.
+ */
+export class SimulatorProvider implements PriceProvider {
+  readonly name = "simulator";
+  private readonly clock: Clock;
+  private readonly startedAt: number;
+  private readonly walks = new Map<string, WalkState>();
+  private readonly failureRandom: () => number;
+
+  constructor(private readonly options: SimulatorOptions) {
+    this.clock = options.clock ?? Date.now;
+    this.startedAt = this.clock();
+    this.failureRandom = createRandom(hashString(`${options.seed}:failures`));
+  }
+
+  settingsFor(symbol: string): SymbolSimulation {
+    const defaults = DEFAULT_SIMULATIONS[symbol] ?? {
+      // Unknown symbols get a stable base price between $20 and $520
+      basePrice: 20 + (hashString(symbol) % 50000) / 100,
+      drift: 0,
+      volatility: 0.0005,
+      spreadBps: 2,
+      tickRate: 4,
+    };
+    return { ...defaults, ...this.options.symbols?.[symbol] };
+  }
+
+  async getQuote(symbol: string): Promise<Quote> {
+    if (this.failureRandom() < (this.options.failureRate ?? 0)) {
+      throw new Error(`Simulated upstream failure for ${symbol}`);
+    }
+
+    const walk = this.walkFor(symbol);
+    const { settings } = walk;
+    const target = Math.floor(
+      ((this.clock() - this.startedAt) * settings.tickRate) / 1000,
+    );
+
+    while (walk.tick < target) {
+      const step =
+        settings.drift -
+        settings.volatility ** 2 / 2 +
+        settings.volatility * gaussian(walk.random);
+      walk.price *= Math.exp(step);
+      walk.volume += Math.floor(walk.random() * 5000);
+      walk.tick++;
+    }
+
+    const halfSpread = (walk.price * settings.spreadBps) / 20000;
+    const bid = round2(walk.price - halfSpread);
+    const ask = round2(walk.price + halfSpread);
+    return {
+      symbol,
+      price: round2(walk.price),
+      bid,
+      ask,
+      volume: walk.volume,
+      timestamp: this.startedAt + (walk.tick * 1000) / settings.tickRate,
+      source: this.name,
+      book: this.bookFor(symbol, walk.tick, bid, ask),
+    };
+  }
+
+  /**
+   * Depth behind the touch. Levels step away a cent at a time with the odd
+   * empty price, and resting size grows with distance from the touch. Seeded
+   * by symbol and tick, so a given tick always has the same book.
+   */
+  private bookFor(symbol: string, tick: number, bid: number, ask: number) {
+    const depth = this.options.bookDepth ?? 10;
+    const random = createRandom(
+      hashString(`${this.options.seed}:${symbol}:book:${tick}`),
+    );
+    const side = (best: number, direction: 1 | -1): BookLevel[] => {
+      const levels: BookLevel[] = [];
+      let cents = Math.round(best * 100);
+      for (let level = 0; level < depth && cents > 0; level++) {
+        const lots = (2 + level * 1.5) * Math.exp(0.5 * gaussian(random));
+        levels.push({
+          price: cents / 100,
+          size: 100 * Math.max(1, Math.round(lots)),
+        });
+        cents += direction * (random() < 0.2 ? 2 : 1);
+      }
+      return levels;
+    };
+    return { bids: side(bid, -1), asks: side(ask, 1) };
+  }
+
+  private walkFor(symbol: string): WalkState {
+    let walk = this.walks.get(symbol);
+    if (!walk) {
+      const settings = this.settingsFor(symbol);
+      walk = {
+        random: createRandom(hashString(`${this.options.seed}:${symbol}`)),
+        settings,
+        tick: 0,
+        price: settings.basePrice,
+        volume: 0,
+      };
+      this.walks.set(symbol, walk);
+    }
+    return walk;
+  }
+}
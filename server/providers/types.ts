@@ -0,0 +1,30 @@
+/**
+ * Upstream quote source abstraction for the price cache
+ */
+
+import type { BookLevel } from "@shared/types";
+
+export interface Quote {
+  symbol: string;
+  price: number;
+  bid: number;
+  ask: number;
+  volume: number;
+  /** Quote time in epoch milliseconds */
+  timestamp: number;
+  source: string;
+  /** Order book depth, best level first, for providers that have it */
+  book?: {
+    bids: BookLevel[];
+    asks: BookLevel[];
+  };
+}
+
+export interface PriceProvider {
+  /** Reported as `source` on every quote this provider produces */
+  readonly name: string;
+  getQuote(symbol: string): Promise<Quote>;
+}
+
+/** Injectable time source so providers can be driven by a fake clock */
+export type Clock = () => number;
@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PriceCache } from "./priceCache";
+import type { PriceProvider, Quote } from "./providers";
+import { RefreshScheduler } from "./refreshScheduler";
+
+const MIN_INTERVAL_MS = 1000;
+const MAX_INTERVAL_MS = 16000;
+
+/**
+ * Provider whose next price and failure can be set between refreshes
+ */
+function stubProvider() {
+  const provider = {
+    name: "stub",
+    calls: 0,
+    price: 100,
+    fail: false,
+    async getQuote(symbol: string): Promise<Quote> {
+      provider.calls++;
+      if (provider.fail) throw new Error("upstream down");
+      return {
+        symbol,
+        price: provider.price,
+        bid: provider.price - 0.01,
+        ask: provider.price + 0.01,
+        volume: 1,
+        timestamp: Date.now(),
+        source: "stub",
+      };
+    },
+  };
+  return provider satisfies PriceProvider;
+}
+
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("RefreshScheduler", () => {
+  let provider: ReturnType<typeof stubProvider>;
+  let cache: PriceCache;
+  let scheduler: RefreshScheduler;
+
+  const setup = (symbols = ["AAPL"], maxEntries?: number) => {
+    provider = stubProvider();
+    cache = new PriceCache({
+      symbols,
+      softTtlMs: 60 * 60 * 1000,
+      hardTtlMs: 2 * 60 * 60 * 1000,
+      provider,
+      maxEntries,
+    });
+    scheduler = new RefreshScheduler({
+      cache,
+      minIntervalMs: MIN_INTERVAL_MS,
+      maxIntervalMs: MAX_INTERVAL_MS,
+      tickMs: 60000,
+    });
+    scheduler.start();
+  };
+
+  const entry = (symbol: string) =>
+    scheduler.status().symbols.find((s) => s.symbol === symbol)!;
+
+  /** Move the clock to the symbol's next refresh and run it */
+  const refreshDue = async (symbol: string) => {
+    vi.setSystemTime(entry(symbol).next_refresh_at * 1000);
+    scheduler.tick();
+    await settle();
+  };
+
+  const reads = async (symbol: string, count: number) => {
+    for (let i = 0; i < count; i++) await cache.get(symbol, "price");
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  it("shortens the interval of a hot symbol to the minimum", async () => {
+    setup();
+    await reads("AAPL", 1);
+    await refreshDue("AAPL");
+    expect(entry("AAPL").interval_ms).toBe(2 * MIN_INTERVAL_MS);
+
+    await reads("AAPL", 50);
+    await refreshDue("AAPL");
+
+    expect(entry("AAPL").reads_per_second).toBe(25);
+    expect(entry("AAPL").interval_ms).toBe(MIN_INTERVAL_MS);
+  });
+
+  it.each([
+    ["a volatile", 110, MIN_INTERVAL_MS],
+    ["a calm", 100, 4 * MIN_INTERVAL_MS],
+  ])(
+    "gives %s symbol (next price %i) read once per interval %ims",
+    async (_, nextPrice, expected) => {
+      setup();
+      await reads("AAPL", 1);
+      await refreshDue("AAPL");
+
+      await reads("AAPL", 1);
+      provider.price = nextPrice;
+      await refreshDue("AAPL");
+
+      expect(entry("AAPL").reads_per_second).toBe(0.5);
+      expect(entry("AAPL").interval_ms).toBe(expected);
+    },
+  );
+
+  it("backs an idle symbol off to the maximum interval", async () => {
+    setup();
+    await reads("AAPL", 1);
+
+    const intervals: number[] = [];
+    for (let i = 0; i < 6; i++) {
+      await refreshDue("AAPL");
+      intervals.push(entry("AAPL").interval_ms);
+    }
+
+    expect(intervals).toEqual([2000, 4000, 8000, 16000, 16000, 16000]);
+  });
+
+  it("backs failed refreshes off to the maximum even while read", async () => {
+    setup();
+    await reads("AAPL", 1);
+    provider.fail = true;
+
+    for (let i = 0; i < 5; i++) {
+      await reads("AAPL", 20);
+      await refreshDue("AAPL");
+    }
+
+    expect(entry("AAPL").interval_ms).toBe(MAX_INTERVAL_MS);
+    expect(entry("AAPL").last_error?.message).toBe("upstream down");
+    expect(scheduler.status().refresh_errors).toBe(5);
+  });
+
+  it("leaves evicted symbols for the next read", async () => {
+    setup(["AAPL", "MSFT"], 1);
+    await reads("AAPL", 1);
+    await reads("MSFT", 1);
+    const calls = provider.calls;
+    const evictions = cache.eviction().evictions;
+
+    for (let i = 0; i < 3; i++) {
+      vi.setSystemTime(Date.now() + MAX_INTERVAL_MS);
+      scheduler.tick();
+      await settle();
+    }
+
+    expect(provider.calls).toBe(calls + 3);
+    expect(cache.isCached("AAPL")).toBe(false);
+    expect(cache.eviction().evictions).toBe(evictions);
+    expect(entry("AAPL").cached).toBe(false);
+    expect(scheduler.status().refreshes).toBe(3);
+  });
+});
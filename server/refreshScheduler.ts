@@ -0,0 +1,240 @@
+import type {
+  ScheduledSymbol,
+  SchedulerStatus,
+  UpstreamError,
+} from "@shared/types";
+import type { PriceCache } from "./priceCache";
+import type { Quote } from "./providers";
+import type { UpstreamBudget } from "./upstreamBudget";
+
+export interface RefreshSchedulerOptions {
+  cache: PriceCache;
+  /** Interval for the hottest, most volatile symbols */
+  minIntervalMs: number;
+  /** Interval idle symbols back off to */
+  maxIntervalMs: number;
+  /** The cache's upstream budget, reported in the status */
+  budget?: UpstreamBudget;
+  /** How often due refreshes are checked */
+  tickMs: number;
+}
+
+interface SymbolState {
+  intervalMs: number;
+  nextRefreshAt: number;
+  lastRefreshAt: number | null;
+  lastDurationMs: number | null;
+  lastError: UpstreamError | null;
+  running: boolean;
+  /** Already counted as deferred while waiting for the budget */
+  deferred: boolean;
+  /** The symbol's cumulative cache reads at its last refresh */
+  readsAtRefresh: number;
+  readsPerSecond: number;
+  lastQuote: { price: number; at: number } | null;
+  volatilityBps: number;
+}
+
+/** Reads per second at which a symbol counts as fully hot */
+const HOT_READS_PER_SECOND = 5;
+/** Volatility at which a symbol counts as fully volatile */
+const HOT_VOLATILITY_BPS = 20;
+/** Weight of the newest price move in the volatility average */
+const VOLATILITY_SMOOTHING = 0.2;
+
+/**
+ * Refreshes cached symbols in the background so reads find them fresh.
+ * Symbols the cache doesn't hold, not read yet or evicted, are left to the
+ * next read, so refreshes never push entries past the cache's capacity.
+ * After each refresh a symbol's interval is recomputed: the more it is read
+ * or the more its price moves, the closer the interval gets to
+ * `minIntervalMs`. Intervals lengthen by at most double per refresh, and a
+ * symbol nobody read since its last refresh doubles its interval up to
+ * `maxIntervalMs`. Failed refreshes back off the same way.
+ * Refreshes go through the cache's upstream budget, which reads are charged
+ * to as well, so many symbols falling due together can't flood upstream;
+ * refreshes the budget turns away wait for the next tick, oldest due first.
+ */
+export class RefreshScheduler {
+  private readonly states = new Map<string, SymbolState>();
+  private timer: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private refreshes = 0;
+  private refreshErrors = 0;
+  private deferred = 0;
+
+  constructor(private readonly options: RefreshSchedulerOptions) {}
+
+  start() {
+    this.unsubscribe = this.options.cache.onQuote((quote) =>
+      this.observe(quote),
+    );
+    this.tick();
+    this.timer = setInterval(() => this.tick(), this.options.tickMs);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Start every due refresh of a cached symbol, oldest first, as far as the
+   * budget allows
+   */
+  tick() {
+    const now = Date.now();
+    this.syncSymbols(now);
+    const { cache } = this.options;
+
+    Array.from(this.states)
+      .filter(
+        ([symbol, state]) =>
+          !state.running &&
+          state.nextRefreshAt <= now &&
+          cache.isCached(symbol),
+      )
+      .sort(([, a], [, b]) => a.nextRefreshAt - b.nextRefreshAt)
+      .forEach(([symbol, state]) => void this.refresh(symbol, state));
+  }
+
+  status(): SchedulerStatus {
+    const symbols: ScheduledSymbol[] = Array.from(
+      this.states,
+      ([symbol, state]) => ({
+        symbol,
+        cached: this.options.cache.isCached(symbol),
+        interval_ms: state.intervalMs,
+        next_refresh_at: state.nextRefreshAt / 1000,
+        last_refresh_at:
+          state.lastRefreshAt !== null ? state.lastRefreshAt / 1000 : null,
+        last_duration_ms: state.lastDurationMs,
+        last_error: state.lastError,
+        reads_per_second: state.readsPerSecond,
+        volatility_bps: state.volatilityBps,
+      }),
+    );
+    return {
+      enabled: this.timer !== null,
+      min_interval_ms: this.options.minIntervalMs,
+      max_interval_ms: this.options.maxIntervalMs,
+      budget: this.options.budget?.status() ?? null,
+      refreshes: this.refreshes,
+      refresh_errors: this.refreshErrors,
+      deferred: this.deferred,
+      symbols,
+    };
+  }
+
+  /**
+   * Start scheduling symbols added to the watchlist, due straight away, and
+   * forget removed ones
+   */
+  private syncSymbols(now: number) {
+    const tracked = new Set(this.options.cache.getSymbols());
+    tracked.forEach((symbol) => {
+      if (this.states.has(symbol)) return;
+      this.states.set(symbol, {
+        intervalMs: this.options.minIntervalMs,
+        nextRefreshAt: now,
+        lastRefreshAt: null,
+        lastDurationMs: null,
+        lastError: null,
+        running: false,
+        deferred: false,
+        readsAtRefresh: this.options.cache.readCount(symbol),
+        readsPerSecond: 0,
+        lastQuote: null,
+        volatilityBps: 0,
+      });
+    });
+    Array.from(this.states.keys()).forEach((symbol) => {
+      if (!tracked.has(symbol)) this.states.delete(symbol);
+    });
+  }
+
+  private async refresh(symbol: string, state: SymbolState) {
+    state.running = true;
+    const started = Date.now();
+    let failed = false;
+    try {
+      if (!(await this.options.cache.prefetch(symbol))) {
+        state.running = false;
+        if (!state.deferred) this.deferred++;
+        state.deferred = true;
+        return;
+      }
+      state.deferred = false;
+      state.lastError = null;
+      this.refreshes++;
+    } catch (error) {
+      failed = true;
+      state.lastError = {
+        time: Date.now() / 1000,
+        message: error instanceof Error ? error.message : String(error),
+      };
+      this.refreshErrors++;
+    }
+    const finished = Date.now();
+    state.running = false;
+    state.lastDurationMs = finished - started;
+    this.adapt(symbol, state, finished, failed);
+    state.lastRefreshAt = finished;
+    state.nextRefreshAt = finished + state.intervalMs;
+  }
+
+  /**
+   * Pick the next interval from the reads since the last refresh and the
+   * smoothed volatility, whichever is more urgent. Urgency maps onto the
+   * interval range geometrically, so each step of it shortens the interval
+   * by the same factor.
+   */
+  private adapt(
+    symbol: string,
+    state: SymbolState,
+    now: number,
+    failed: boolean,
+  ) {
+    const { minIntervalMs, maxIntervalMs } = this.options;
+    const reads = this.options.cache.readCount(symbol);
+    const newReads = reads - state.readsAtRefresh;
+    state.readsAtRefresh = reads;
+    if (state.lastRefreshAt !== null && now > state.lastRefreshAt) {
+      state.readsPerSecond = newReads / ((now - state.lastRefreshAt) / 1000);
+    }
+
+    if (failed || newReads === 0) {
+      state.intervalMs = Math.min(state.intervalMs * 2, maxIntervalMs);
+      return;
+    }
+    const heat = Math.min(1, state.readsPerSecond / HOT_READS_PER_SECOND);
+    const movement = Math.min(1, state.volatilityBps / HOT_VOLATILITY_BPS);
+    const urgency = Math.max(heat, movement);
+    const target =
+      maxIntervalMs * Math.pow(minIntervalMs / maxIntervalMs, urgency);
+    state.intervalMs = Math.round(Math.min(target, state.intervalMs * 2));
+  }
+
+  /**
+   * Fold a fetched quote's price move into the symbol's volatility. The
+   * move is scaled by the square root of the time since the previous quote,
+   * so the estimate doesn't depend on how often the symbol is refreshed.
+   */
+  private observe(quote: Quote) {
+    const state = this.states.get(quote.symbol);
+    if (!state) return;
+    const last = state.lastQuote;
+    if (last && quote.timestamp <= last.at) return;
+    if (last && last.price > 0 && quote.price > 0) {
+      const seconds = (quote.timestamp - last.at) / 1000;
+      const moveBps =
+        (Math.abs(Math.log(quote.price / last.price)) * 10_000) /
+        Math.sqrt(seconds);
+      state.volatilityBps +=
+        VOLATILITY_SMOOTHING * (moveBps - state.volatilityBps);
+    }
+    state.lastQuote = { price: quote.price, at: quote.timestamp };
+  }
+}
@@ -0,0 +1,47 @@
+import express from "express";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createApiRouter, type ApiServices } from "./routes";
+
+describe("createApiRouter", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    const app = express();
+    // Malformed bodies are rejected before any service is touched
+    app.use("/api", createApiRouter({} as ApiServices));
+    server = createServer(app);
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it.each([
+    ["POST", "/symbols"],
+    ["POST", "/alerts"],
+    ["POST", "/benchmark/runs"],
+    ["PUT", "/admin/eviction"],
+  ])(
+    "answers malformed JSON on %s %s with a 400 detail",
+    async (method, route) => {
+      const response = await fetch(`${baseUrl}${route}`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: "{not json",
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.headers.get("content-type")).toMatch(/application\/json/);
+      expect(await response.json()).toEqual({
+        detail: "Request body must be valid JSON",
+      });
+    },
+  );
+});
@@ -0,0 +1,484 @@
+import express, {
+  Router,
+  type ErrorRequestHandler,
+  type Response,
+} from "express";
+import type {
+  AlertRulesResponse,
+  EvictionConfigInput,
+  HistoryResponse,
+  SloStatusResponse,
+  PricesResponse,
+  ReadRoute,
+  StatsBreakdownResponse,
+  StatsResponse,
+  SymbolsResponse,
+} from "@shared/types";
+import { AlertRuleError, parseRuleInput, PriceAlertEngine } from "./alerts";
+import {
+  BENCHMARK_HEADER,
+  BenchmarkConfigError,
+  type BenchmarkRunner,
+} from "./benchmark";
+import { CandleStore, isCandleInterval } from "./candles";
+import { CircuitBreaker, CircuitOpenError } from "./circuitBreaker";
+import { isEvictionPolicy, PriceCache, UnknownSymbolError } from "./priceCache";
+import type { RefreshScheduler } from "./refreshScheduler";
+import type { SloMonitor } from "./slo";
+
+export interface ApiServices {
+  cache: PriceCache;
+  breaker: CircuitBreaker;
+  benchmarks: BenchmarkRunner;
+  candles: CandleStore;
+  alerts: PriceAlertEngine;
+  slo: SloMonitor;
+  scheduler: RefreshScheduler;
+}
+
+/** Exchange-style tickers such as AAPL, BRK.B or RDS-A */
+const SYMBOL_PATTERN = /^[A-Z][A-Z0-9.-]{0,9}$/;
+
+/**
+ * Parse a `from`/`to` query value, given as epoch seconds or an ISO-8601
+ * string, into epoch milliseconds
+ */
+function parseTime(value: unknown): number | undefined | null {
+  if (value === undefined || value === "") return undefined;
+  const raw = String(value);
+  const ms = /^\d+(\.\d+)?$/.test(raw) ? Number(raw) * 1000 : Date.parse(raw);
+  return Number.isFinite(ms) ? ms : null;
+}
+
+/**
+ * Send an error using the `{ detail }` body shape the dashboard expects
+ */
+export function sendError(res: Response, error: unknown) {
+  if (error instanceof UnknownSymbolError) {
+    res.status(404).json({ detail: error.message });
+    return;
+  }
+  if (error instanceof CircuitOpenError) {
+    res.status(503).set("Retry-After", "5").json({ detail: error.message });
+    return;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  res.status(503).json({ detail: message });
+}
+
+function sendAlertError(res: Response, error: unknown) {
+  if (error instanceof AlertRuleError) {
+    res.status(422).json({ detail: error.message });
+    return;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  res.status(500).json({ detail: message });
+}
+
+/**
+ * HTTP API for the price cache
+ */
+export function createApiRouter({
+  cache,
+  breaker,
+  benchmarks,
+  candles,
+  alerts,
+  slo,
+  scheduler,
+}: ApiServices): Router {
+  const router = Router();
+  router.use(express.json());
+
+  router.get("/price/:symbol", async (req, res) => {
+    // Loopback benchmark reads count under their own route, like in-process ones
+    const route: ReadRoute = req.get(BENCHMARK_HEADER) ? "benchmark" : "price";
+    try {
+      res.json(await cache.get(req.params.symbol, route));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.get("/book/:symbol", async (req, res) => {
+    try {
+      const book = await cache.getBook(req.params.symbol);
+      if (!book) {
+        res.status(404).json({
+          detail: `No order book depth for ${req.params.symbol.toUpperCase()}`,
+        });
+        return;
+      }
+      res.json(book);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.get("/prices", async (_req, res) => {
+    try {
+      const start = process.hrtime.bigint();
+      const prices = await cache.getAll();
+      const body: PricesResponse = {
+        prices,
+        count: Object.keys(prices).length,
+        latency_us: Number(process.hrtime.bigint() - start) / 1000,
+        timestamp: Date.now() / 1000,
+      };
+      res.json(body);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.get("/history/:symbol", (req, res) => {
+    const symbol = req.params.symbol.toUpperCase();
+    if (!cache.has(symbol)) {
+      sendError(res, new UnknownSymbolError(symbol));
+      return;
+    }
+    const interval = String(req.query.interval ?? "1m");
+    if (!isCandleInterval(interval)) {
+      res.status(422).json({ detail: `Invalid interval "${interval}"` });
+      return;
+    }
+    const from = parseTime(req.query.from);
+    const to = parseTime(req.query.to);
+    if (from === null || to === null) {
+      res.status(422).json({
+        detail: "from and to must be epoch seconds or ISO-8601 timestamps",
+      });
+      return;
+    }
+    const body: HistoryResponse = {
+      symbol,
+      interval,
+      candles: candles.query(symbol, interval, from, to),
+    };
+    res.json(body);
+  });
+
+  router.get("/stats", (_req, res) => {
+    const body: StatsResponse = {
+      cache_stats: cache.stats(),
+      latency_histogram: cache.lookupLatency.buckets(),
+      cache_size: cache.size(),
+      eviction: cache.eviction(),
+      symbols: cache.getSymbols(),
+      timestamp: Date.now() / 1000,
+    };
+    res.json(body);
+  });
+
+  router.get("/stats/breakdown", (_req, res) => {
+    const body: StatsBreakdownResponse = {
+      symbols: cache.allSymbolStats(),
+      routes: cache.routeStats(),
+      timestamp: Date.now() / 1000,
+    };
+    res.json(body);
+  });
+
+  router.get("/scheduler", (_req, res) => {
+    res.json(scheduler.status());
+  });
+
+  router.get("/admin/eviction", (_req, res) => {
+    res.json(cache.eviction());
+  });
+
+  router.put("/admin/eviction", (req, res) => {
+    const input: EvictionConfigInput = {};
+    const { policy, max_entries, max_bytes } = req.body ?? {};
+    if (policy !== undefined) {
+      if (!isEvictionPolicy(policy)) {
+        res
+          .status(422)
+          .json({ detail: `Invalid policy "${policy}", use lru, lfu or ttl` });
+        return;
+      }
+      input.policy = policy;
+    }
+    for (const [name, value] of [
+      ["max_entries", max_entries],
+      ["max_bytes", max_bytes],
+    ] as const) {
+      if (value === undefined) continue;
+      if (value !== null && !(Number.isInteger(value) && value >= 0)) {
+        res.status(422).json({
+          detail: `${name} must be a non-negative integer or null`,
+        });
+        return;
+      }
+      input[name] = value;
+    }
+    res.json(cache.configureEviction(input));
+  });
+
+  router.get("/health", (_req, res) => {
+    res.json(cache.health());
+  });
+
+  router.get("/symbols", (_req, res) => {
+    const body: SymbolsResponse = { symbols: cache.getSymbols() };
+    res.json(body);
+  });
+
+  router.post("/symbols", async (req, res) => {
+    const symbol = String(req.body?.symbol ?? "")
+      .trim()
+      .toUpperCase();
+    if (!SYMBOL_PATTERN.test(symbol)) {
+      res.status(422).json({ detail: `Invalid symbol "${symbol}"` });
+      return;
+    }
+    if (!cache.addSymbol(symbol)) {
+      res.status(409).json({ detail: `Symbol ${symbol} is already tracked` });
+      return;
+    }
+    try {
+      // Prime the cache so a symbol the provider can't quote is rejected now
+      await cache.get(symbol);
+    } catch (error) {
+      cache.removeSymbol(symbol);
+      const message = error instanceof Error ? error.message : String(error);
+      res.status(422).json({ detail: `Cannot quote ${symbol}: ${message}` });
+      return;
+    }
+    const body: SymbolsResponse = { symbols: cache.getSymbols() };
+    res.status(201).json(body);
+  });
+
+  router.delete("/symbols/:symbol", (req, res) => {
+    const symbol = req.params.symbol.toUpperCase();
+    if (!cache.removeSymbol(symbol)) {
+      sendError(res, new UnknownSymbolError(symbol));
+      return;
+    }
+    const body: SymbolsResponse = { symbols: cache.getSymbols() };
+    res.json(body);
+  });
+
+  router.get("/symbols/:symbol/stats", (req, res) => {
+    try {
+      res.json(cache.symbolStats(req.params.symbol));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.get("/circuit-breaker/status", (_req, res) => {
+    res.json(breaker.metrics());
+  });
+
+  router.post("/circuit-breaker/reset", (_req, res) => {
+    breaker.reset();
+    res.json(breaker.metrics());
+  });
+
+  router.get("/alerts", (_req, res) => {
+    const body: AlertRulesResponse = {
+      rules: alerts.list(),
+      webhook_url: alerts.webhook(),
+    };
+    res.json(body);
+  });
+
+  router.post("/alerts", async (req, res) => {
+    try {
+      const input = parseRuleInput(req.body ?? {});
+      if (!cache.has(input.condition.symbol)) {
+        throw new AlertRuleError(
+          `Symbol ${input.condition.symbol} is not tracked`,
+        );
+      }
+      res.status(201).json(await alerts.create(input));
+    } catch (error) {
+      sendAlertError(res, error);
+    }
+  });
+
+  router.get("/alerts/events", (_req, res) => {
+    res.json({ events: alerts.events() });
+  });
+
+  router.put("/alerts/webhook", async (req, res) => {
+    const url = req.body?.url;
+    try {
+      await alerts.setWebhook(url ? String(url) : null);
+      res.json({ webhook_url: alerts.webhook() });
+    } catch (error) {
+      sendAlertError(res, error);
+    }
+  });
+
+  router.post("/alerts/webhook/test", async (_req, res) => {
+    try {
+      await alerts.testWebhook();
+      res.json({ delivered: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.status(502).json({ detail: `Webhook delivery failed: ${message}` });
+    }
+  });
+
+  router.get("/alerts/:id", (req, res) => {
+    const rule = alerts.get(req.params.id);
+    if (!rule) {
+      res.status(404).json({ detail: `Alert ${req.params.id} not found` });
+      return;
+    }
+    res.json(rule);
+  });
+
+  router.put("/alerts/:id", async (req, res) => {
+    try {
+      const input = parseRuleInput(req.body ?? {});
+      if (!cache.has(input.condition.symbol)) {
+        throw new AlertRuleError(
+          `Symbol ${input.condition.symbol} is not tracked`,
+        );
+      }
+      const rule = await alerts.update(req.params.id, input);
+      if (!rule) {
+        res.status(404).json({ detail: `Alert ${req.params.id} not found` });
+        return;
+      }
+      res.json(rule);
+    } catch (error) {
+      sendAlertError(res, error);
+    }
+  });
+
+  router.delete("/alerts/:id", async (req, res) => {
+    if (!(await alerts.remove(req.params.id))) {
+      res.status(404).json({ detail: `Alert ${req.params.id} not found` });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  router.get("/slo", (_req, res) => {
+    const body: SloStatusResponse = {
+      rules: slo.rulesStatus(),
+      alerts: slo.alerts(),
+    };
+    res.json(body);
+  });
+
+  router.post("/slo/alerts/:id/ack", (req, res) => {
+    const alert = slo.acknowledge(req.params.id);
+    if (!alert) {
+      res.status(404).json({ detail: `SLO alert ${req.params.id} not found` });
+      return;
+    }
+    res.json(alert);
+  });
+
+  router.post("/slo/rules/:kind/silence", (req, res) => {
+    const seconds = Number(req.body?.seconds);
+    if (!Number.isFinite(seconds) || seconds <= 0) {
+      res.status(422).json({ detail: "seconds must be a positive number" });
+      return;
+    }
+    if (!slo.silence(req.params.kind, seconds)) {
+      res.status(404).json({ detail: `SLO rule ${req.params.kind} not found` });
+      return;
+    }
+    res.json({ rules: slo.rulesStatus() });
+  });
+
+  router.delete("/slo/rules/:kind/silence", (req, res) => {
+    if (!slo.silence(req.params.kind, 0)) {
+      res.status(404).json({ detail: `SLO rule ${req.params.kind} not found` });
+      return;
+    }
+    res.json({ rules: slo.rulesStatus() });
+  });
+
+  router.get("/benchmark/runs", (_req, res) => {
+    res.json({ runs: benchmarks.list() });
+  });
+
+  router.post("/benchmark/runs", (req, res) => {
+    try {
+      const run = benchmarks.start(benchmarks.parseConfig(req.body ?? {}));
+      res.status(202).location(`benchmark/runs/${run.id}`).json(run);
+    } catch (error) {
+      if (error instanceof BenchmarkConfigError) {
+        res.status(422).json({ detail: error.message });
+        return;
+      }
+      sendError(res, error);
+    }
+  });
+
+  router.get("/benchmark/runs/:id", (req, res) => {
+    const run = benchmarks.get(req.params.id);
+    if (!run) {
+      res
+        .status(404)
+        .json({ detail: `Benchmark run ${req.params.id} not found` });
+      return;
+    }
+    res.json(run);
+  });
+
+  // Server-sent progress events, ending with the finished run
+  router.get("/benchmark/runs/:id/events", (req, res) => {
+    const run = benchmarks.get(req.params.id);
+    if (!run) {
+      res
+        .status(404)
+        .json({ detail: `Benchmark run ${req.params.id} not found` });
+      return;
+    }
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.flushHeaders();
+
+    const write = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    const onProgress = (updated: typeof run) => {
+      if (updated.id === run.id) write("progress", updated.progress);
+    };
+    const onDone = (finished: typeof run) => {
+      if (finished.id !== run.id) return;
+      write("done", finished);
+      res.end();
+    };
+    const cleanup = () => {
+      benchmarks.off("progress", onProgress);
+      benchmarks.off("done", onDone);
+    };
+
+    if (run.status === "completed" || run.status === "failed") {
+      write("done", run);
+      res.end();
+      return;
+    }
+    write("progress", run.progress);
+    benchmarks.on("progress", onProgress);
+    benchmarks.on("done", onDone);
+    res.on("close", cleanup);
+  });
+
+  router.use((_req, res) => {
+    res.status(404).json({ detail: "Not Found" });
+  });
+
+  const jsonErrors: ErrorRequestHandler = (error, _req, res, next) => {
+    if (error?.type === "entity.parse.failed") {
+      res.status(400).json({ detail: "Request body must be valid JSON" });
+      return;
+    }
+    next(error);
+  };
+  router.use(jsonErrors);
+
+  return router;
+}
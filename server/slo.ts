@@ -0,0 +1,257 @@
+import { EventEmitter } from "events";
+import { nanoid } from "nanoid";
+import type { SloAlert, SloRule, SloRuleKind } from "@shared/types";
+import type { CircuitBreaker } from "./circuitBreaker";
+import type { PriceCache } from "./priceCache";
+
+export interface SloThresholds {
+  /** Fire when the hit rate over `hitRateWindowSeconds` drops below this */
+  minHitRatePercent: number;
+  hitRateWindowSeconds: number;
+  maxP99LatencyUs: number;
+  maxBreakerOpenSeconds: number;
+  maxCacheAgeSeconds: number;
+}
+
+export interface SloMonitorOptions {
+  cache: PriceCache;
+  breaker: CircuitBreaker;
+  thresholds: SloThresholds;
+  evaluateIntervalMs: number;
+  /** Alerts kept in the history list */
+  maxAlerts?: number;
+}
+
+interface RuleState {
+  kind: SloRuleKind;
+  description: string;
+  threshold: number;
+  unit: SloRule["unit"];
+  windowSeconds: number | null;
+  value: number | null;
+  /** Open alert while the rule is firing */
+  alert: SloAlert | null;
+  silencedUntil: number | null;
+}
+
+/** Fewer requests than this in the window is too little to judge a hit rate */
+const MIN_WINDOW_REQUESTS = 20;
+
+interface CounterSample {
+  at: number;
+  served: number;
+  total: number;
+}
+
+/**
+ * Watches the cache's own health using the numbers the Observability and
+ * Circuit Breaker pages show: hit rate from the cache counters, p99 from the
+ * lookup histogram, breaker state from its metrics and age from `/health`.
+ * Alerts open when a rule starts failing and resolve when it recovers; both
+ * transitions are emitted as `alert` events unless the rule is silenced.
+ */
+export class SloMonitor extends EventEmitter {
+  private readonly rules: RuleState[];
+  private readonly samples: CounterSample[] = [];
+  private history: SloAlert[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly options: SloMonitorOptions) {
+    super();
+    const t = options.thresholds;
+    const rule = (
+      kind: SloRuleKind,
+      description: string,
+      threshold: number,
+      unit: SloRule["unit"],
+      windowSeconds: number | null = null,
+    ): RuleState => ({
+      kind,
+      description,
+      threshold,
+      unit,
+      windowSeconds,
+      value: null,
+      alert: null,
+      silencedUntil: null,
+    });
+    this.rules = [
+      rule(
+        "hit_rate",
+        `Hit rate below ${t.minHitRatePercent}% over ${t.hitRateWindowSeconds}s`,
+        t.minHitRatePercent,
+        "%",
+        t.hitRateWindowSeconds,
+      ),
+      rule(
+        "p99_latency",
+        `P99 lookup latency above ${t.maxP99LatencyUs} µs`,
+        t.maxP99LatencyUs,
+        "µs",
+      ),
+      rule(
+        "breaker_open",
+        `Circuit breaker open for more than ${t.maxBreakerOpenSeconds}s`,
+        t.maxBreakerOpenSeconds,
+        "s",
+      ),
+      rule(
+        "cache_age",
+        `Cache age above ${t.maxCacheAgeSeconds}s`,
+        t.maxCacheAgeSeconds,
+        "s",
+      ),
+    ];
+  }
+
+  start() {
+    this.evaluate();
+    this.timer = setInterval(
+      () => this.evaluate(),
+      this.options.evaluateIntervalMs,
+    );
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Take a reading for every rule and open or resolve alerts
+   */
+  evaluate() {
+    const now = Date.now() / 1000;
+    this.rules.forEach((rule) => {
+      rule.value = this.measure(rule, now);
+      const failing =
+        rule.value !== null &&
+        (rule.kind === "hit_rate"
+          ? rule.value < rule.threshold
+          : rule.value > rule.threshold);
+
+      if (failing && !rule.alert) {
+        const silenced =
+          rule.silencedUntil !== null && now < rule.silencedUntil;
+        rule.alert = {
+          id: nanoid(10),
+          kind: rule.kind,
+          message: `${rule.description}: ${formatValue(rule.value!, rule.unit)}`,
+          value: rule.value!,
+          threshold: rule.threshold,
+          started_at: now,
+          resolved_at: null,
+          acknowledged_at: null,
+          silenced,
+        };
+        this.history.push(rule.alert);
+        this.history = this.history.slice(-(this.options.maxAlerts ?? 200));
+        if (!silenced) this.emit("alert", rule.alert);
+      } else if (!failing && rule.alert) {
+        const alert = rule.alert;
+        alert.resolved_at = now;
+        rule.alert = null;
+        if (!alert.silenced) this.emit("alert", alert);
+      } else if (failing && rule.alert) {
+        rule.alert.value = rule.value!;
+      }
+    });
+  }
+
+  rulesStatus(): SloRule[] {
+    const now = Date.now() / 1000;
+    return this.rules.map((rule) => ({
+      kind: rule.kind,
+      description: rule.description,
+      threshold: rule.threshold,
+      unit: rule.unit,
+      window_seconds: rule.windowSeconds,
+      value: rule.value,
+      firing: rule.alert !== null,
+      silenced_until:
+        rule.silencedUntil !== null && rule.silencedUntil > now
+          ? rule.silencedUntil
+          : null,
+    }));
+  }
+
+  /**
+   * Alert history, newest first
+   */
+  alerts(): SloAlert[] {
+    return [...this.history].reverse();
+  }
+
+  /**
+   * Mark an alert as seen. Returns undefined if there is no such alert.
+   */
+  acknowledge(id: string): SloAlert | undefined {
+    const alert = this.history.find((a) => a.id === id);
+    if (alert && alert.acknowledged_at === null) {
+      alert.acknowledged_at = Date.now() / 1000;
+    }
+    return alert;
+  }
+
+  /**
+   * Stop notifying new alerts for a rule for `seconds`, or lift the silence
+   * when `seconds` is 0. Returns false for an unknown rule.
+   */
+  silence(kind: string, seconds: number): boolean {
+    const rule = this.rules.find((r) => r.kind === kind);
+    if (!rule) return false;
+    rule.silencedUntil = seconds > 0 ? Date.now() / 1000 + seconds : null;
+    return true;
+  }
+
+  private measure(rule: RuleState, now: number): number | null {
+    const { cache, breaker } = this.options;
+    switch (rule.kind) {
+      case "hit_rate":
+        return this.windowedHitRate(now, rule.windowSeconds!);
+      case "p99_latency":
+        return cache.lookupLatency.count() > 0
+          ? cache.stats().p99_latency_us
+          : null;
+      case "breaker_open": {
+        const metrics = breaker.metrics();
+        return metrics.state === "open"
+          ? now - metrics.last_state_change_time
+          : 0;
+      }
+      case "cache_age":
+        return cache.size() > 0 ? cache.ageSeconds() : null;
+    }
+  }
+
+  /**
+   * Hit rate over the trailing window, from differences in the cumulative
+   * counters. Null while the window has seen too few requests, so a cold
+   * start's first misses don't raise an alert.
+   */
+  private windowedHitRate(now: number, windowSeconds: number): number | null {
+    const stats = this.options.cache.stats();
+    this.samples.push({
+      at: now,
+      served: stats.cache_hits + stats.stale_hits,
+      total: stats.total_requests,
+    });
+    while (
+      this.samples.length > 1 &&
+      this.samples[1].at <= now - windowSeconds
+    ) {
+      this.samples.shift();
+    }
+    const oldest = this.samples[0];
+    const latest = this.samples[this.samples.length - 1];
+    const requests = latest.total - oldest.total;
+    if (requests < MIN_WINDOW_REQUESTS) return null;
+    return ((latest.served - oldest.served) / requests) * 100;
+  }
+}
+
+function formatValue(value: number, unit: SloRule["unit"]): string {
+  return unit === "µs"
+    ? `${value.toFixed(1)} µs`
+    : `${value.toFixed(1)}${unit}`;
+}
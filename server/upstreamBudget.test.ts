@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { UpstreamBudget } from "./upstreamBudget";
+
+describe("UpstreamBudget", () => {
+  it("lets a fractional rate through once a whole token has refilled", () => {
+    let now = 0;
+    const budget = new UpstreamBudget(0.5, () => now);
+
+    expect(budget.tryTake()).toBe(true);
+    expect(budget.tryTake()).toBe(false);
+    now = 1000;
+    expect(budget.tryTake()).toBe(false);
+    now = 2000;
+    expect(budget.tryTake()).toBe(true);
+  });
+
+  it("charges reads even over budget and holds background work back", () => {
+    let now = 0;
+    const budget = new UpstreamBudget(2, () => now);
+
+    Array.from({ length: 5 }, () => budget.charge());
+    expect(budget.tryTake()).toBe(false);
+    // Debt stops at one bucket: 2 tokens owed, 3 needed for the next call
+    now = 1000;
+    expect(budget.tryTake()).toBe(false);
+    now = 1500;
+    expect(budget.tryTake()).toBe(true);
+
+    expect(budget.status()).toMatchObject({
+      per_second: 2,
+      foreground_calls: 5,
+      background_calls: 1,
+      deferred: 2,
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import type { UpstreamBudgetStatus } from "@shared/types";
+import type { Clock } from "./providers";
+
+/**
+ * Token bucket shared by every upstream call the price cache makes.
+ * Calls a reader is waiting on always go ahead and are charged anyway, which
+ * can leave the bucket in debt; background work (stale revalidations and
+ * scheduled refreshes) only starts while a whole token is available, so it
+ * yields to reads instead of adding to an upstream burst.
+ */
+export class UpstreamBudget {
+  /** Fractional rates still need room for one whole token */
+  private readonly capacity: number;
+  private tokens: number;
+  private refilledAt: number;
+  private foregroundCalls = 0;
+  private backgroundCalls = 0;
+  private deferred = 0;
+
+  constructor(
+    private readonly perSecond: number,
+    private readonly clock: Clock = Date.now,
+  ) {
+    this.capacity = Math.max(1, perSecond);
+    this.tokens = this.capacity;
+    this.refilledAt = clock();
+  }
+
+  /**
+   * Take a token for background work. False means the budget is spent and
+   * the work should wait.
+   */
+  tryTake(): boolean {
+    this.refill();
+    if (this.tokens < 1) {
+      this.deferred++;
+      return false;
+    }
+    this.tokens -= 1;
+    this.backgroundCalls++;
+    return true;
+  }
+
+  /**
+   * Charge a call a reader is waiting on. Debt is capped at one bucket, so a
+   * burst of reads can't hold background work off for long.
+   */
+  charge() {
+    this.refill();
+    this.tokens = Math.max(-this.capacity, this.tokens - 1);
+    this.foregroundCalls++;
+  }
+
+  status(): UpstreamBudgetStatus {
+    this.refill();
+    return {
+      per_second: this.perSecond,
+      available_tokens: Math.max(0, Math.floor(this.tokens)),
+      foreground_calls: this.foregroundCalls,
+      background_calls: this.backgroundCalls,
+      deferred: this.deferred,
+    };
+  }
+
+  private refill() {
+    const now = this.clock();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.refilledAt) / 1000) * this.perSecond,
+    );
+    this.refilledAt = now;
+  }
+}
@@ -0,0 +1,98 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { WebSocket } from "ws";
+import type { StreamMessage } from "@shared/types";
+import { CircuitBreaker } from "./circuitBreaker";
+import { PriceCache } from "./priceCache";
+import type { PriceProvider } from "./providers";
+import { StreamServer } from "./websocket";
+
+const provider: PriceProvider = {
+  name: "stub",
+  async getQuote(symbol) {
+    return {
+      symbol,
+      price: 100,
+      bid: 99.99,
+      ask: 100.01,
+      volume: 1,
+      timestamp: Date.now(),
+      source: "stub",
+    };
+  },
+};
+
+describe("StreamServer /ws/prices", () => {
+  let server: Server;
+  let streams: StreamServer;
+
+  beforeEach(async () => {
+    const breaker = new CircuitBreaker("stub", {
+      failureThreshold: 5,
+      successThreshold: 2,
+      timeoutSeconds: 60,
+      halfOpenMaxCalls: 3,
+    });
+    const cache = new PriceCache({
+      symbols: ["AAPL"],
+      softTtlMs: 2000,
+      hardTtlMs: 30000,
+      provider,
+      breaker,
+    });
+    server = createServer();
+    streams = new StreamServer(
+      { cache, breaker },
+      { basePath: "/api", statsIntervalMs: 60000, priceIntervalMs: 60000 },
+    );
+    streams.attach(server);
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+  });
+
+  afterEach(async () => {
+    streams.close();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("answers non-object frames with an error and keeps serving", async () => {
+    const { port } = server.address() as AddressInfo;
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/api/ws/prices`);
+    const inbox: StreamMessage[] = [];
+    let waiting: ((message: StreamMessage) => void) | null = null;
+    ws.on("message", (raw) => {
+      const message: StreamMessage = JSON.parse(raw.toString());
+      if (waiting) waiting(message);
+      else inbox.push(message);
+      waiting = null;
+    });
+    const next = () =>
+      new Promise<StreamMessage>((resolve) => {
+        const queued = inbox.shift();
+        if (queued) resolve(queued);
+        else waiting = resolve;
+      });
+    await new Promise((resolve) => ws.once("open", resolve));
+
+    ws.send("null");
+    expect(await next()).toEqual({
+      type: "error",
+      detail: "Messages must be JSON objects",
+    });
+    ws.send("42");
+    expect(await next()).toEqual({
+      type: "error",
+      detail: "Messages must be JSON objects",
+    });
+
+    ws.send(JSON.stringify({ action: "subscribe", symbols: ["aapl"] }));
+    expect(await next()).toEqual({ type: "subscribed", symbols: ["AAPL"] });
+    expect(await next()).toMatchObject({
+      type: "price",
+      data: { symbol: "AAPL" },
+    });
+    ws.close();
+  });
+});
@@ -0,0 +1,263 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocket, WebSocketServer } from "ws";
+import type {
+  PriceAlertEvent,
+  SloAlert,
+  StreamCommand,
+  StreamMessage,
+  StreamStats,
+} from "@shared/types";
+import type { ApiServices } from "./routes";
+
+export interface StreamServerOptions {
+  /** Path prefix the HTTP API is mounted under, e.g. "/api" */
+  basePath: string;
+  statsIntervalMs: number;
+  priceIntervalMs: number;
+}
+
+interface PriceClient {
+  /** `price` ticks from /ws/prices or `book` snapshots from /ws/book */
+  channel: "price" | "book";
+  symbols: Set<string>;
+  /** Last quote timestamp sent per symbol, so unchanged quotes are skipped */
+  sent: Map<string, string>;
+}
+
+/**
+ * WebSocket endpoints sharing the HTTP server:
+ * - `/ws/stats` pushes a stats frame every `statsIntervalMs`
+ * - `/ws/prices` pushes price ticks for the symbols each client subscribed to
+ * - `/ws/book` pushes order book snapshots the same way
+ * - `/ws/alerts` pushes price alerts as they fire and SLO alerts as they
+ *   open and resolve
+ */
+export class StreamServer {
+  private readonly wss = new WebSocketServer({ noServer: true });
+  private readonly statsClients = new Set<WebSocket>();
+  private readonly priceClients = new Map<WebSocket, PriceClient>();
+  private readonly alertClients = new Set<WebSocket>();
+  private readonly timers: NodeJS.Timeout[] = [];
+
+  constructor(
+    private readonly services: Pick<ApiServices, "cache" | "breaker">,
+    private readonly options: StreamServerOptions,
+  ) {}
+
+  attach(server: Server) {
+    server.on("upgrade", (req, socket, head) =>
+      this.handleUpgrade(req, socket, head),
+    );
+    this.timers.push(
+      setInterval(() => this.pushStats(), this.options.statsIntervalMs),
+      setInterval(() => void this.pushPrices(), this.options.priceIntervalMs),
+    );
+  }
+
+  clientCount(): number {
+    return (
+      this.statsClients.size + this.priceClients.size + this.alertClients.size
+    );
+  }
+
+  close() {
+    this.timers.forEach(clearInterval);
+    this.wss.clients.forEach((ws) => ws.close(1001, "Server shutting down"));
+    this.wss.close();
+  }
+
+  stats(): StreamStats {
+    const { cache, breaker } = this.services;
+    const cacheStats = cache.stats();
+    return {
+      ...cacheStats,
+      refresh_errors: cacheStats.failed_refreshes,
+      cache_size: cache.size(),
+      circuit_state: breaker.getState(),
+      ws_clients: this.clientCount(),
+      latency_histogram: cache.lookupLatency.buckets(),
+      eviction: cache.eviction(),
+      timestamp: Date.now() / 1000,
+    };
+  }
+
+  private handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer) {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const route = url.pathname.slice(this.options.basePath.length);
+    if (
+      !url.pathname.startsWith(this.options.basePath) ||
+      !["/ws/stats", "/ws/prices", "/ws/book", "/ws/alerts"].includes(route)
+    ) {
+      socket.destroy();
+      return;
+    }
+
+    this.wss.handleUpgrade(req, socket, head, (ws) => {
+      if (route === "/ws/stats") {
+        this.addStatsClient(ws);
+      } else if (route === "/ws/alerts") {
+        this.alertClients.add(ws);
+        ws.on("close", () => this.alertClients.delete(ws));
+      } else {
+        const initial = url.searchParams.get("symbols");
+        this.addPriceClient(
+          ws,
+          route === "/ws/book" ? "book" : "price",
+          initial ? initial.split(",") : [],
+        );
+      }
+    });
+  }
+
+  publishAlert(event: PriceAlertEvent) {
+    const frame: StreamMessage = { type: "alert", data: event };
+    this.alertClients.forEach((ws) => send(ws, frame));
+  }
+
+  publishSloAlert(alert: SloAlert) {
+    const frame: StreamMessage = { type: "slo_alert", data: alert };
+    this.alertClients.forEach((ws) => send(ws, frame));
+  }
+
+  private addStatsClient(ws: WebSocket) {
+    this.statsClients.add(ws);
+    ws.on("close", () => this.statsClients.delete(ws));
+    send(ws, { type: "stats", data: this.stats() });
+  }
+
+  private addPriceClient(
+    ws: WebSocket,
+    channel: PriceClient["channel"],
+    symbols: string[],
+  ) {
+    const client: PriceClient = {
+      channel,
+      symbols: new Set(),
+      sent: new Map(),
+    };
+    this.priceClients.set(ws, client);
+    ws.on("close", () => this.priceClients.delete(ws));
+    ws.on("message", (raw) => this.handleCommand(ws, client, raw.toString()));
+    if (symbols.length > 0) {
+      this.subscribe(ws, client, symbols);
+    }
+  }
+
+  private handleCommand(ws: WebSocket, client: PriceClient, raw: string) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      send(ws, { type: "error", detail: "Messages must be JSON" });
+      return;
+    }
+    if (typeof parsed !== "object" || parsed === null) {
+      send(ws, { type: "error", detail: "Messages must be JSON objects" });
+      return;
+    }
+    const command = parsed as Partial<StreamCommand>;
+    if (!Array.isArray(command.symbols)) {
+      send(ws, { type: "error", detail: "Expected a symbols array" });
+      return;
+    }
+
+    if (command.action === "subscribe") {
+      this.subscribe(ws, client, command.symbols);
+    } else if (command.action === "unsubscribe") {
+      command.symbols.forEach((symbol) => {
+        const key = String(symbol).toUpperCase();
+        client.symbols.delete(key);
+        client.sent.delete(key);
+      });
+      send(ws, { type: "subscribed", symbols: Array.from(client.symbols) });
+    } else {
+      send(ws, {
+        type: "error",
+        detail: `Unknown action "${command.action}"`,
+      });
+    }
+  }
+
+  private subscribe(ws: WebSocket, client: PriceClient, symbols: string[]) {
+    const unknown: string[] = [];
+    symbols.forEach((symbol) => {
+      const key = String(symbol).toUpperCase();
+      if (this.services.cache.has(key)) client.symbols.add(key);
+      else unknown.push(key);
+    });
+    if (unknown.length > 0) {
+      send(ws, {
+        type: "error",
+        detail: `Symbols not tracked: ${unknown.join(", ")}`,
+      });
+    }
+    send(ws, { type: "subscribed", symbols: Array.from(client.symbols) });
+    void this.pushPrices(client, ws);
+  }
+
+  private pushStats() {
+    if (this.statsClients.size === 0) return;
+    const frame: StreamMessage = { type: "stats", data: this.stats() };
+    this.statsClients.forEach((ws) => send(ws, frame));
+  }
+
+  /**
+   * Read each subscribed symbol once per channel and fan it out to
+   * subscribers whose last sent snapshot is older
+   */
+  private async pushPrices(only?: PriceClient, onlyWs?: WebSocket) {
+    const targets: [WebSocket, PriceClient][] =
+      only && onlyWs ? [[onlyWs, only]] : Array.from(this.priceClients);
+    await Promise.all(
+      (["price", "book"] as const).map((channel) =>
+        this.pushChannel(
+          channel,
+          targets.filter(([, client]) => client.channel === channel),
+        ),
+      ),
+    );
+  }
+
+  private async pushChannel(
+    channel: PriceClient["channel"],
+    targets: [WebSocket, PriceClient][],
+  ) {
+    const wanted = new Set<string>();
+    targets.forEach(([, client]) =>
+      client.symbols.forEach((s) => wanted.add(s)),
+    );
+    if (wanted.size === 0) return;
+
+    const { cache } = this.services;
+    const read = async (symbol: string) => {
+      if (channel === "book") {
+        const book = await cache.getBook(symbol, "websocket");
+        if (!book) return null;
+        const frame: StreamMessage = { type: "book", data: book };
+        return { symbol: book.symbol, timestamp: book.timestamp, frame };
+      }
+      const price = await cache.get(symbol, "websocket");
+      const frame: StreamMessage = { type: "price", data: price };
+      return { symbol: price.symbol, timestamp: price.timestamp, frame };
+    };
+
+    const results = await Promise.allSettled(Array.from(wanted, read));
+    results.forEach((result) => {
+      if (result.status !== "fulfilled" || !result.value) return;
+      const { symbol, timestamp, frame } = result.value;
+      targets.forEach(([ws, client]) => {
+        if (!client.symbols.has(symbol)) return;
+        if (client.sent.get(symbol) === timestamp) return;
+        client.sent.set(symbol, timestamp);
+        send(ws, frame);
+      });
+    });
+  }
+}
+
+function send(ws: WebSocket, message: StreamMessage) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
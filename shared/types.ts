@@ -0,0 +1,463 @@
+/**
+ * Wire types shared by the price cache server and the dashboard client
+ */
+
+/**
+ * How a cached quote relates to its soft and hard TTL when it was served
+ */
+export type Freshness = "fresh" | "stale" | "expired";
+
+export interface PriceData {
+  symbol: string;
+  price: number;
+  bid: number;
+  ask: number;
+  volume: number;
+  timestamp: string;
+  latency_ns: number;
+  latency_us: number;
+  source: string;
+  freshness: Freshness;
+  /** Time since the quote was fetched from upstream */
+  age_ms: number;
+}
+
+/** One price level of an order book */
+export interface BookLevel {
+  price: number;
+  /** Shares resting at this price */
+  size: number;
+}
+
+/** Order book snapshot for a symbol, best level first on each side */
+export interface OrderBook {
+  symbol: string;
+  bids: BookLevel[];
+  asks: BookLevel[];
+  timestamp: string;
+  source: string;
+  freshness: Freshness;
+  age_ms: number;
+}
+
+export interface CacheStats {
+  /** Reads served from a fresh entry */
+  cache_hits: number;
+  cache_misses: number;
+  /** Reads served from a stale entry while it was refreshed in the background */
+  stale_hits: number;
+  total_requests: number;
+  hit_rate_percent: number;
+  avg_latency_us: number;
+  p50_latency_us: number;
+  p90_latency_us: number;
+  p95_latency_us: number;
+  p99_latency_us: number;
+  p999_latency_us: number;
+  max_latency_us: number;
+  failed_refreshes: number;
+  /** Entries dropped to stay within the capacity limits */
+  evictions: number;
+  /** Misses that shared another miss's upstream fetch instead of making their own */
+  coalesced_requests: number;
+  /** Calls that reached the upstream provider, and their mean duration */
+  upstream_calls: number;
+  avg_upstream_latency_us: number;
+}
+
+/**
+ * How the cache picks an entry to drop when it is over capacity:
+ * least recently read, least often read, or closest to expiring
+ */
+export type EvictionPolicy = "lru" | "lfu" | "ttl";
+
+export interface EvictionStatus {
+  policy: EvictionPolicy;
+  /** Null when unlimited */
+  max_entries: number | null;
+  max_bytes: number | null;
+  entries: number;
+  /** Approximate size of the cached quotes, as serialized JSON */
+  bytes: number;
+  evictions: number;
+  evictions_by_policy: Record<EvictionPolicy, number>;
+  /** Epoch seconds the current policy took effect */
+  policy_since: number;
+  /** Reads and hit rate since the current policy took effect */
+  policy_requests: number;
+  policy_hit_rate_percent: number;
+}
+
+/** Body of `PUT /admin/eviction`; omitted fields are left unchanged, 0 or null lifts a limit */
+export interface EvictionConfigInput {
+  policy?: EvictionPolicy;
+  max_entries?: number | null;
+  max_bytes?: number | null;
+}
+
+/** One bucket of a latency histogram, covering [lower_ns, upper_ns) */
+export interface HistogramBucket {
+  lower_ns: number;
+  upper_ns: number;
+  count: number;
+}
+
+export interface HealthStatus {
+  status: string;
+  timestamp: number;
+  cache_age_seconds?: number;
+  cache_size?: number;
+  hit_rate?: number;
+  upstream_errors?: number;
+  /** The cache was restored from a snapshot at startup */
+  warm_start?: boolean;
+  /** How old the snapshot was when it was restored */
+  snapshot_age_seconds?: number | null;
+  restored_entries?: number;
+}
+
+export interface UpstreamError {
+  /** Epoch seconds */
+  time: number;
+  message: string;
+}
+
+/** Hit, miss, refresh and lookup latency counts for one slice of cache reads */
+export interface ReadStats {
+  cache_hits: number;
+  stale_hits: number;
+  cache_misses: number;
+  total_requests: number;
+  hit_rate_percent: number;
+  /** Successful upstream fetches */
+  refreshes: number;
+  refresh_errors: number;
+  /** Misses that joined a fetch already in flight */
+  coalesced: number;
+  avg_latency_us: number;
+  p50_latency_us: number;
+  p95_latency_us: number;
+  p99_latency_us: number;
+  max_latency_us: number;
+}
+
+/** Cache behaviour for one symbol, from `/symbols/:symbol/stats` */
+export interface SymbolStats extends ReadStats {
+  symbol: string;
+  /** Epoch seconds of the last successful upstream fetch */
+  last_refresh: number | null;
+  freshness: Freshness | null;
+  /** Most recent failed upstream fetches, newest first */
+  upstream_errors: UpstreamError[];
+}
+
+/**
+ * Where a cache read came from: `/price/:symbol`, `/prices`, `/book/:symbol`,
+ * a WebSocket stream, a benchmark run, or the server itself (symbol
+ * priming). Benchmark reads, in-process or over HTTP loopback, only count
+ * towards their own route.
+ */
+export type ReadRoute =
+  | "price"
+  | "prices"
+  | "book"
+  | "websocket"
+  | "benchmark"
+  | "internal";
+
+export interface RouteStats extends ReadStats {
+  route: ReadRoute;
+  last_refresh_error: UpstreamError | null;
+}
+
+/** Background refresh state for one symbol, from `/scheduler` */
+export interface ScheduledSymbol {
+  symbol: string;
+  /** Held in the cache; uncached symbols wait for a read instead */
+  cached: boolean;
+  /** Current adaptive refresh interval */
+  interval_ms: number;
+  /** Epoch seconds */
+  next_refresh_at: number;
+  last_refresh_at: number | null;
+  last_duration_ms: number | null;
+  last_error: UpstreamError | null;
+  /** Cache reads per second over the last interval */
+  reads_per_second: number;
+  /** Smoothed price movement, in basis points per square-root second */
+  volatility_bps: number;
+}
+
+export interface UpstreamBudgetStatus {
+  /** Upstream calls per second shared by reads and background refreshes */
+  per_second: number;
+  /** Background refreshes that can start right now */
+  available_tokens: number;
+  /** Calls a read was waiting on; these go ahead even over budget */
+  foreground_calls: number;
+  /** Stale revalidations and scheduled refreshes */
+  background_calls: number;
+  /** Background refreshes skipped because the budget was spent */
+  deferred: number;
+}
+
+export interface SchedulerStatus {
+  enabled: boolean;
+  min_interval_ms: number;
+  max_interval_ms: number;
+  /** Null when upstream calls are unlimited */
+  budget: UpstreamBudgetStatus | null;
+  refreshes: number;
+  refresh_errors: number;
+  /** Due refreshes postponed because the budget was spent */
+  deferred: number;
+  symbols: ScheduledSymbol[];
+}
+
+export interface StatsBreakdownResponse {
+  symbols: SymbolStats[];
+  routes: RouteStats[];
+  timestamp: number;
+}
+
+export interface PricesResponse {
+  prices: Record<string, PriceData>;
+  count: number;
+  latency_us: number;
+  timestamp: number;
+}
+
+export interface SymbolsResponse {
+  symbols: string[];
+}
+
+export interface StatsResponse {
+  cache_stats: CacheStats;
+  latency_histogram: HistogramBucket[];
+  cache_size: number;
+  eviction: EvictionStatus;
+  symbols: string[];
+  timestamp: number;
+}
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerMetrics {
+  name: string;
+  state: CircuitState;
+  total_calls: number;
+  successful_calls: number;
+  failed_calls: number;
+  rejected_calls: number;
+  success_rate_percent: number;
+  state_changes: number;
+  last_failure_time: number | null;
+  last_state_change_time: number;
+  config: {
+    failure_threshold: number;
+    success_threshold: number;
+    timeout_seconds: number;
+    half_open_max_calls: number;
+  };
+}
+
+export interface StreamStats extends CacheStats {
+  refresh_errors: number;
+  cache_size: number;
+  circuit_state: CircuitState;
+  ws_clients: number;
+  latency_histogram: HistogramBucket[];
+  eviction: EvictionStatus;
+  timestamp: number;
+}
+
+/** Frames pushed by the /ws/stats, /ws/prices, /ws/book and /ws/alerts endpoints */
+export type StreamMessage =
+  | { type: "stats"; data: StreamStats }
+  | { type: "price"; data: PriceData }
+  | { type: "book"; data: OrderBook }
+  | { type: "alert"; data: PriceAlertEvent }
+  | { type: "slo_alert"; data: SloAlert }
+  | { type: "subscribed"; symbols: string[] }
+  | { type: "error"; detail: string };
+
+/** Messages clients send to /ws/prices and /ws/book */
+export interface StreamCommand {
+  action: "subscribe" | "unsubscribe";
+  symbols: string[];
+}
+
+export type BenchmarkMode = "in_process" | "http_loopback";
+
+export type BenchmarkStatus = "queued" | "running" | "completed" | "failed";
+
+export interface BenchmarkConfig {
+  iterations: number;
+  warmup: number;
+  concurrency: number;
+  symbols: string[];
+  mode: BenchmarkMode;
+  /** Direct upstream calls per symbol, for the uncached baseline */
+  uncached_iterations: number;
+}
+
+/** Latency summary in microseconds */
+export interface LatencySummary {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  p95: number;
+  p99: number;
+  stddev: number;
+}
+
+export interface BenchmarkSymbolResult {
+  symbol: string;
+  /** Raw samples; empty for runs loaded from history */
+  samples_ns: number[];
+  summary: LatencySummary;
+  uncached_samples_ns: number[];
+  uncached_summary: LatencySummary;
+  /** Uncached mean divided by cached mean */
+  speedup: number;
+}
+
+export interface BenchmarkProgress {
+  phase: "warmup" | "measure" | "uncached";
+  symbol: string;
+  completed: number;
+  total: number;
+}
+
+export interface BenchmarkRun {
+  id: string;
+  status: BenchmarkStatus;
+  /** Commit the server was built from, when known */
+  git_commit: string | null;
+  config: BenchmarkConfig;
+  created_at: number;
+  started_at: number | null;
+  finished_at: number | null;
+  progress: BenchmarkProgress | null;
+  results: BenchmarkSymbolResult[];
+  error: string | null;
+}
+
+export type CandleInterval = "1s" | "1m" | "5m" | "1h";
+
+/** OHLCV bar aggregated from upstream ticks */
+export interface Candle {
+  /** Bar open time, epoch seconds */
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  /** Shares traded during the bar */
+  volume: number;
+  /** Bid and ask of the last tick in the bar */
+  bid: number;
+  ask: number;
+  ticks: number;
+}
+
+export interface HistoryResponse {
+  symbol: string;
+  interval: CandleInterval;
+  candles: Candle[];
+}
+
+/**
+ * What a price alert watches for:
+ * - `crosses`: the price moves through `level` in `direction`
+ * - `percent_move`: the price moves at least `percent` within `window_seconds`
+ * - `spread`: the bid/ask spread exceeds `percent` of the mid price
+ */
+export type PriceAlertCondition =
+  | {
+      type: "crosses";
+      symbol: string;
+      level: number;
+      direction: "above" | "below" | "either";
+    }
+  | {
+      type: "percent_move";
+      symbol: string;
+      percent: number;
+      window_seconds: number;
+    }
+  | { type: "spread"; symbol: string; percent: number };
+
+export interface PriceAlertRule {
+  id: string;
+  name: string;
+  condition: PriceAlertCondition;
+  enabled: boolean;
+  created_at: number;
+  last_fired_at: number | null;
+}
+
+/** Body of `POST /alerts` and `PUT /alerts/:id` */
+export interface PriceAlertRuleInput {
+  name?: string;
+  condition: PriceAlertCondition;
+  enabled?: boolean;
+}
+
+export interface PriceAlertEvent {
+  id: string;
+  rule_id: string;
+  rule_name: string;
+  symbol: string;
+  message: string;
+  price: number;
+  fired_at: number;
+}
+
+export interface AlertRulesResponse {
+  rules: PriceAlertRule[];
+  webhook_url: string | null;
+}
+
+export type SloRuleKind =
+  | "hit_rate"
+  | "p99_latency"
+  | "breaker_open"
+  | "cache_age";
+
+/** An operational rule on the cache and its current reading */
+export interface SloRule {
+  kind: SloRuleKind;
+  description: string;
+  /** Hit rate fires below this; the other kinds fire above it */
+  threshold: number;
+  unit: "%" | "µs" | "s";
+  /** Hit rate only: the trailing window the rate is measured over */
+  window_seconds: number | null;
+  /** Latest reading; null when there is nothing to measure yet */
+  value: number | null;
+  firing: boolean;
+  /** Epoch seconds until which new alerts for this rule are not notified */
+  silenced_until: number | null;
+}
+
+export interface SloAlert {
+  id: string;
+  kind: SloRuleKind;
+  message: string;
+  value: number;
+  threshold: number;
+  started_at: number;
+  resolved_at: number | null;
+  acknowledged_at: number | null;
+  /** Raised while the rule was silenced, so nobody was notified */
+  silenced: boolean;
+}
+
+export interface SloStatusResponse {
+  rules: SloRule[];
+  /** Newest first */
+  alerts: SloAlert[];
+}
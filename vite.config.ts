@@ -41,10 +41,11 @@ export default defineConfig({
       deny: ["**/.*"],
     },
     proxy: {
+      // `pnpm dev:server` runs the price cache API on port 8000
       '/api': {
         target: 'http://localhost:8000',
         changeOrigin: true,
-        rewrite: (path) => path.replace(/^\/api/, ''),
+        ws: true,
       },
     },
   },